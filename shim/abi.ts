@@ -0,0 +1,74 @@
+/**
+ * Classification of structs passed by value, following the x86-64 System V
+ * ABI (section 3.2.3, "Parameter Passing"). Deno performs the actual calls,
+ * this is exposed so that bindings can reason about how a struct travels:
+ * in general purpose registers, in vector registers or through memory.
+ */
+
+import type { FieldType, StructLayout } from "./struct.ts";
+import { isStructType, sizeOf } from "./struct.ts";
+import type { NativeType } from "./types.ts";
+import { isFunctionType } from "./types.ts";
+
+/**
+ * Class of a single eightbyte. `NO_CLASS` is only left for eightbytes that
+ * consist entirely of padding.
+ */
+export type EightbyteClass = "INTEGER" | "SSE" | "NO_CLASS";
+
+export interface StructClassification {
+  size: number;
+  alignment: number;
+  /**
+   * `MEMORY` structs are passed on the stack and returned through a hidden
+   * pointer supplied by the caller.
+   */
+  memory: boolean;
+  /**
+   * Class of each eightbyte, empty for `MEMORY` structs.
+   */
+  classes: EightbyteClass[];
+}
+
+function flatten(
+  type: FieldType,
+  offset: number,
+  into: { offset: number; type: NativeType }[],
+): void {
+  if (isStructType(type)) {
+    for (const [name, field] of Object.entries(type.struct.fields)) {
+      flatten(field, offset + type.struct.offsetOf(name), into);
+    }
+  } else if (typeof type === "object" && "array" in type) {
+    const stride = sizeOf(type.array);
+    for (let index = 0; index < type.length; index++) {
+      flatten(type.array, offset + index * stride, into);
+    }
+  } else {
+    into.push({ offset, type: isFunctionType(type) ? "pointer" : type });
+  }
+}
+
+export function classifyStruct(layout: StructLayout): StructClassification {
+  const { size, alignment } = layout;
+  // Anything larger than two eightbytes goes through memory, we have no
+  // `__m256` style vector types that could be passed in a single register.
+  if (size > 16) {
+    return { size, alignment, memory: true, classes: [] };
+  }
+  const primitives: { offset: number; type: NativeType }[] = [];
+  flatten({ struct: layout }, 0, primitives);
+  const classes: EightbyteClass[] = Array.from(
+    { length: Math.ceil(size / 8) },
+    () => "NO_CLASS",
+  );
+  for (const { offset, type } of primitives) {
+    const index = Math.floor(offset / 8);
+    const fieldClass = type === "f32" || type === "f64" ? "SSE" : "INTEGER";
+    // INTEGER wins when an eightbyte mixes integer and floating point fields.
+    if (classes[index] !== "INTEGER") {
+      classes[index] = fieldClass;
+    }
+  }
+  return { size, alignment, memory: false, classes };
+}
@@ -0,0 +1,31 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { classifyStruct, StructLayout } from "./mod.ts";
+
+Deno.test("small structs travel in registers by the class of their eightbytes", () => {
+  const Point = new StructLayout({ x: "i32", y: "i32" });
+  const Vec2 = new StructLayout({ x: "f32", y: "f32" });
+  const Sample = new StructLayout({ time: "u64", value: "f64" });
+  assertEquals(classifyStruct(Point), {
+    size: 8,
+    alignment: 4,
+    memory: false,
+    classes: ["INTEGER"],
+  });
+  assertEquals(classifyStruct(Vec2).classes, ["SSE"]);
+  assertEquals(classifyStruct(Sample).classes, ["INTEGER", "SSE"]);
+});
+
+Deno.test("eightbytes mixing integer and floating point fields are INTEGER", () => {
+  const Mixed = new StructLayout({ id: "u32", weight: "f32" });
+  const Nested = new StructLayout({
+    inner: { struct: Mixed },
+    values: { array: "f32", length: 2 },
+  });
+  assertEquals(classifyStruct(Mixed).classes, ["INTEGER"]);
+  assertEquals(classifyStruct(Nested).classes, ["INTEGER", "SSE"]);
+});
+
+Deno.test("structs larger than two eightbytes go through memory", () => {
+  const Rect = new StructLayout({ x: "f64", y: "f64", width: "f64", height: "f64" });
+  assertEquals(classifyStruct(Rect), { size: 32, alignment: 8, memory: true, classes: [] });
+});
@@ -0,0 +1,974 @@
+/**
+ * Generates shim definitions from a C header, instead of writing
+ * `parameters` and `result` objects by hand:
+ *
+ * ```sh
+ * deno run --allow-read --allow-write shim/bindgen.ts lib.h --out lib.ts
+ * ```
+ *
+ * The generated module exports a `StructLayout` for every struct, a
+ * `StoredFunctionDescription` for every function pointer typedef, a const
+ * object for every enum and the `dlopen` definition of every prototype as
+ * `symbols`. A header declaring
+ *
+ * ```c
+ * typedef struct { int32_t x, y; } Point;
+ * typedef uint8_t (*QueueCallback)(const char *item);
+ * uint8_t register_queue_callback(QueueCallback callback);
+ * double distance(Point a, Point b);
+ * ```
+ *
+ * becomes, once formatted,
+ *
+ * ```ts
+ * export const Point = new StructLayout({ x: "i32", y: "i32" });
+ * export const QueueCallback = { parameters: ["pointer"], result: "u8" } as const satisfies
+ *   StoredFunctionDescription;
+ * export const symbols = {
+ *   register_queue_callback: { parameters: [{ function: QueueCallback }], result: "u8" },
+ *   distance: { parameters: [{ struct: Point }, { struct: Point }], result: "f64" },
+ * } as const satisfies LibraryDefinition;
+ * ```
+ *
+ * Only a practical subset of C is understood. Headers are read as they are:
+ * nothing is fetched, `#include`s are not followed and conditional
+ * compilation is not evaluated, so every branch of an `#if` is read. Types
+ * follow the LP64 data model, where `long` is 64 bits wide. Everything else,
+ * such as macros with values, unions, bit-fields, variadic functions and
+ * inline definitions, is skipped and reported as a `HeaderProblem` with its
+ * line number. Export macros in front of prototypes can be skipped with the
+ * `ignore` option.
+ */
+
+import type { NativeType } from "./types.ts";
+
+/**
+ * A construct the generator skipped.
+ */
+export interface HeaderProblem {
+  line: number;
+  message: string;
+}
+
+export interface BindingsOptions {
+  /**
+   * Specifier the generated module imports the shim from. Defaults to this
+   * shim's `mod.ts`.
+   */
+  shim?: string;
+  /**
+   * Name of the exported `dlopen` definition. Defaults to `"symbols"`.
+   */
+  name?: string;
+  /**
+   * Identifiers to skip wherever they appear in a declaration, such as
+   * export macros like `MYLIB_API` or calling conventions.
+   */
+  ignore?: readonly string[];
+  /**
+   * Name of the header, mentioned in the generated module's first line.
+   */
+  source?: string;
+}
+
+export interface Bindings {
+  /**
+   * Source of the generated TypeScript module.
+   */
+  code: string;
+  /**
+   * Skipped constructs, ordered by line.
+   */
+  problems: HeaderProblem[];
+}
+
+interface Token {
+  text: string;
+  line: number;
+}
+
+interface FunctionCType {
+  kind: "function";
+  parameters: CType[];
+  result: CType;
+  variadic: boolean;
+  /**
+   * Name of the typedef the description is exported as.
+   */
+  name?: string;
+}
+
+type CType =
+  | { kind: "void" }
+  | { kind: "native"; type: NativeType }
+  | { kind: "pointer"; to: CType }
+  | { kind: "array"; of: CType; length: number | undefined }
+  | { kind: "struct"; tag?: string; layout?: string }
+  | { kind: "union" }
+  | FunctionCType;
+
+type Position = "parameter" | "result" | "field";
+
+class HeaderError extends Error {
+  readonly line: number;
+
+  constructor(line: number, message: string) {
+    super(message);
+    this.line = line;
+  }
+}
+
+const TOKEN = /[A-Za-z_]\w*|\d[\w.]*|"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|\.\.\.|<<|>>|\S/y;
+
+const IDENTIFIER = /^[A-Za-z_]\w*$/;
+
+const QUALIFIERS = new Set([
+  "const",
+  "volatile",
+  "restrict",
+  "__restrict",
+  "__restrict__",
+  "extern",
+  "register",
+  "__extension__",
+  "__inline",
+  "inline",
+]);
+
+const ATTRIBUTES = new Set(["__attribute__", "__declspec", "__asm__", "asm"]);
+
+const BUILTIN_WORDS = new Set([
+  "void",
+  "char",
+  "short",
+  "int",
+  "long",
+  "signed",
+  "unsigned",
+  "float",
+  "double",
+  "_Bool",
+  "bool",
+]);
+
+const STANDARD_TYPES: Record<string, NativeType> = {
+  int8_t: "i8",
+  uint8_t: "u8",
+  int16_t: "i16",
+  uint16_t: "u16",
+  int32_t: "i32",
+  uint32_t: "u32",
+  int64_t: "i64",
+  uint64_t: "u64",
+  size_t: "usize",
+  ssize_t: "isize",
+  ptrdiff_t: "isize",
+  intptr_t: "isize",
+  uintptr_t: "usize",
+  off_t: "i64",
+  wchar_t: "i32",
+};
+
+/**
+ * Enums have the size of an `int` on every platform Deno FFI supports.
+ */
+const ENUM_TYPE: CType = { kind: "native", type: "i32" };
+
+const IGNORED_DIRECTIVES = new Set([
+  "",
+  "include",
+  "if",
+  "ifdef",
+  "ifndef",
+  "elif",
+  "else",
+  "endif",
+  "pragma",
+  "undef",
+  "error",
+  "warning",
+  "line",
+]);
+
+function tokenize(source: string, problems: HeaderProblem[]): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let index = 0;
+  let lineStart = true;
+  while (index < source.length) {
+    const char = source[index];
+    if (char === "\n") {
+      line++;
+      index++;
+      lineStart = true;
+    } else if (/\s/.test(char)) {
+      index++;
+    } else if (source.startsWith("//", index)) {
+      const end = source.indexOf("\n", index);
+      index = end < 0 ? source.length : end;
+    } else if (source.startsWith("/*", index)) {
+      const end = source.indexOf("*/", index + 2);
+      const comment = source.slice(index, end < 0 ? source.length : end + 2);
+      line += comment.split("\n").length - 1;
+      index += comment.length;
+    } else if (char === "#" && lineStart) {
+      // Directives end at the first newline not escaped by a backslash.
+      const end = /(?<!\\)\n|$/g;
+      end.lastIndex = index;
+      const directive = source.slice(index, end.exec(source)!.index);
+      checkDirective(directive.replace(/\/\*.*?\*\/|\/\/.*$/gs, " "), line, problems);
+      line += directive.split("\n").length - 1;
+      index += directive.length;
+    } else {
+      lineStart = false;
+      TOKEN.lastIndex = index;
+      const text = TOKEN.exec(source)![0];
+      tokens.push({ text, line });
+      index += text.length;
+    }
+  }
+  return tokens;
+}
+
+function checkDirective(directive: string, line: number, problems: HeaderProblem[]): void {
+  const [, name, macro = "", rest = ""] = /^#\s*(\w*)\s*(\w*)(.*)$/s.exec(directive) ?? [];
+  if (name !== "define") {
+    if (!IGNORED_DIRECTIVES.has(name)) {
+      problems.push({ line, message: `Unknown directive "#${name}"` });
+    }
+    return;
+  }
+  if (rest.startsWith("(")) {
+    problems.push({ line, message: `Function-like macro "${macro}" is not supported` });
+  } else if (rest.replace(/\\\n/g, "").trim() !== "") {
+    problems.push({
+      line,
+      message: `Macro "${macro}" is not supported, declare its value in TypeScript instead`,
+    });
+  }
+}
+
+/**
+ * Integer value of a C integer or character literal.
+ */
+function parseInteger(text: string): number | undefined {
+  const character = /^'(\\?.)'$/.exec(text);
+  if (character) {
+    const escapes: Record<string, number> = { "\\n": 10, "\\t": 9, "\\0": 0, "\\r": 13 };
+    return escapes[character[1]] ?? character[1].at(-1)!.charCodeAt(0);
+  }
+  const digits = text.replace(/[uUlL]+$/, "");
+  if (/^0[0-7]+$/.test(digits)) {
+    return parseInt(digits, 8);
+  }
+  const value = Number(digits);
+  return /^(0[xXbB])?[\da-fA-F]+$/.test(digits) && Number.isSafeInteger(value) ? value : undefined;
+}
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  "|": 1,
+  "^": 2,
+  "&": 3,
+  "<<": 4,
+  ">>": 4,
+  "+": 5,
+  "-": 5,
+  "*": 6,
+  "/": 6,
+  "%": 6,
+};
+
+function applyBinary(operator: string, left: number, right: number): number {
+  switch (operator) {
+    case "|":
+      return left | right;
+    case "^":
+      return left ^ right;
+    case "&":
+      return left & right;
+    case "<<":
+      return left << right;
+    case ">>":
+      return left >> right;
+    case "+":
+      return left + right;
+    case "-":
+      return left - right;
+    case "*":
+      return left * right;
+    case "/":
+      return Math.trunc(left / right);
+    default:
+      return left % right;
+  }
+}
+
+/**
+ * Evaluates the integer constant expressions found in enums and array
+ * lengths: literals, earlier enumerators, parentheses and arithmetic.
+ */
+function evaluate(tokens: Token[], constants: Map<string, number>, line: number): number {
+  let index = 0;
+  const fail = (): never => {
+    throw new HeaderError(
+      line,
+      `Unsupported constant expression "${tokens.map((token) => token.text).join(" ")}"`,
+    );
+  };
+  const operand = (): number => {
+    const token = tokens[index++] ?? fail();
+    if (token.text === "(") {
+      const value = binary(0);
+      if (tokens[index++]?.text !== ")") {
+        fail();
+      }
+      return value;
+    }
+    if (token.text === "-") {
+      return -operand();
+    }
+    if (token.text === "+") {
+      return operand();
+    }
+    if (token.text === "~") {
+      return ~operand();
+    }
+    return constants.get(token.text) ?? parseInteger(token.text) ?? fail();
+  };
+  const binary = (minimum: number): number => {
+    let left = operand();
+    for (;;) {
+      const operator = tokens[index]?.text;
+      const precedence = BINARY_PRECEDENCE[operator];
+      if (precedence === undefined || precedence <= minimum) {
+        return left;
+      }
+      index++;
+      left = applyBinary(operator, left, binary(precedence));
+    }
+  };
+  const value = binary(0);
+  return index === tokens.length ? value : fail();
+}
+
+function builtinType(words: string[], line: number): CType {
+  const count = (word: string) => words.filter((each) => each === word).length;
+  const unsigned = count("unsigned") > 0;
+  if (words.includes("void")) {
+    return { kind: "void" };
+  }
+  if (words.includes("_Bool") || words.includes("bool")) {
+    return { kind: "native", type: "u8" };
+  }
+  if (words.includes("float")) {
+    return { kind: "native", type: "f32" };
+  }
+  if (words.includes("double")) {
+    if (count("long") > 0) {
+      throw new HeaderError(line, "long double is not supported");
+    }
+    return { kind: "native", type: "f64" };
+  }
+  if (words.includes("char")) {
+    return { kind: "native", type: unsigned ? "u8" : "i8" };
+  }
+  if (words.includes("short")) {
+    return { kind: "native", type: unsigned ? "u16" : "i16" };
+  }
+  if (count("long") > 0) {
+    return { kind: "native", type: unsigned ? "u64" : "i64" };
+  }
+  return { kind: "native", type: unsigned ? "u32" : "i32" };
+}
+
+class HeaderParser {
+  readonly problems: HeaderProblem[];
+  /**
+   * Exported declarations of the generated module, in header order.
+   */
+  readonly declarations: string[] = [];
+  /**
+   * Entries of the `dlopen` definition.
+   */
+  readonly symbols: string[] = [];
+  usesStructs = false;
+  #tokens: Token[];
+  #index = 0;
+  #limit = 0;
+  #ignored: Set<string>;
+  #typedefs = new Map<string, CType>();
+  #structs = new Map<string, string>();
+  #constants = new Map<string, number>();
+  #exported = new Set<string>();
+  #static = false;
+
+  constructor(tokens: Token[], ignored: readonly string[], problems: HeaderProblem[]) {
+    this.#tokens = tokens;
+    this.#ignored = new Set(ignored);
+    this.problems = problems;
+  }
+
+  parse(): void {
+    let externBlocks = 0;
+    while (this.#index < this.#tokens.length) {
+      this.#limit = this.#tokens.length;
+      const text = this.#peek()!.text;
+      if (text === "extern" && this.#peek(1)?.text === '"C"' && this.#peek(2)?.text === "{") {
+        this.#index += 3;
+        externBlocks++;
+      } else if (text === "}" && externBlocks > 0) {
+        this.#index++;
+        externBlocks--;
+      } else if (text === ";") {
+        this.#index++;
+      } else {
+        this.#declaration();
+      }
+    }
+  }
+
+  #declaration(): void {
+    const line = this.#peek()!.line;
+    const { end, body } = this.#declarationEnd(this.#index);
+    if (body) {
+      this.problems.push({
+        line,
+        message: "Function definitions are not supported, only prototypes",
+      });
+      this.#index = end + 1;
+      return;
+    }
+    this.#limit = end;
+    try {
+      this.#parseDeclaration();
+    } catch (error) {
+      if (!(error instanceof HeaderError)) {
+        throw error;
+      }
+      this.problems.push({ line: error.line, message: error.message });
+    }
+    this.#index = end + 1;
+  }
+
+  /**
+   * Finds the `;` ending the declaration at `start`, or the `}` ending an
+   * inline function definition.
+   */
+  #declarationEnd(start: number): { end: number; body: boolean } {
+    let depth = 0;
+    for (let index = start; index < this.#tokens.length; index++) {
+      const text = this.#tokens[index].text;
+      if (depth === 0 && text === ";") {
+        return { end: index, body: false };
+      }
+      if (depth === 0 && text === "{" && this.#tokens[index - 1]?.text === ")") {
+        let nested = 0;
+        for (let inner = index; inner < this.#tokens.length; inner++) {
+          const { text } = this.#tokens[inner];
+          nested += text === "{" ? 1 : text === "}" ? -1 : 0;
+          if (nested === 0) {
+            return { end: inner, body: true };
+          }
+        }
+        return { end: this.#tokens.length, body: true };
+      }
+      if (depth === 0 && text === "}") {
+        // The end of an `extern "C"` block, the declaration lacks its `;`.
+        return { end: index - 1, body: false };
+      }
+      if (text === "(" || text === "[" || text === "{") {
+        depth++;
+      } else if (text === ")" || text === "]" || text === "}") {
+        depth--;
+      }
+    }
+    return { end: this.#tokens.length, body: false };
+  }
+
+  #parseDeclaration(): void {
+    const typedef = this.#accept("typedef");
+    this.#static = false;
+    const base = this.#specifiers(typedef);
+    if (this.#atEnd()) {
+      // A struct or enum definition on its own.
+      return;
+    }
+    do {
+      const line = this.#peek()!.line;
+      const { name, type } = this.#declarator(base);
+      if (!name) {
+        throw new HeaderError(line, "Expected a name");
+      }
+      if (typedef) {
+        this.#typedef(name, type, line);
+      } else {
+        this.#prototype(name, type, line);
+      }
+    } while (this.#accept(","));
+    if (!this.#atEnd()) {
+      this.#unexpected();
+    }
+  }
+
+  #typedef(name: string, type: CType, line: number): void {
+    const fn = type.kind === "pointer" ? type.to : type;
+    if (fn.kind !== "function" || fn.name) {
+      this.#typedefs.set(name, type);
+      return;
+    }
+    const description = this.#description(fn, line);
+    this.#export(
+      name,
+      `export const ${name} = ${description} as const satisfies StoredFunctionDescription;`,
+      line,
+    );
+    const named: FunctionCType = { ...fn, name };
+    this.#typedefs.set(name, type.kind === "pointer" ? { kind: "pointer", to: named } : named);
+  }
+
+  #prototype(name: string, type: CType, line: number): void {
+    if (type.kind !== "function") {
+      throw new HeaderError(line, `Global variable "${name}" is not supported`);
+    }
+    if (this.#static) {
+      throw new HeaderError(line, `Static function "${name}" is not exported by the library`);
+    }
+    const description = this.#description(type, line);
+    if (this.#exported.has(`symbol:${name}`)) {
+      throw new HeaderError(
+        line,
+        `"${name}" is declared more than once, conditional compilation is not evaluated`,
+      );
+    }
+    this.#exported.add(`symbol:${name}`);
+    this.symbols.push(`  ${name}: ${description},`);
+  }
+
+  #export(name: string, code: string, line: number): void {
+    if (this.#exported.has(name)) {
+      throw new HeaderError(
+        line,
+        `"${name}" is declared more than once, conditional compilation is not evaluated`,
+      );
+    }
+    this.#exported.add(name);
+    this.declarations.push(code);
+  }
+
+  #description(fn: FunctionCType, line: number): string {
+    if (fn.variadic) {
+      throw new HeaderError(line, "Variadic functions are not supported");
+    }
+    const parameters = fn.parameters.map((type) => this.#source(type, "parameter", line));
+    return `{ parameters: [${parameters.join(", ")}], result: ${
+      this.#source(fn.result, "result", line)
+    } }`;
+  }
+
+  /**
+   * Shim type of a C type, in the generated module's source.
+   */
+  #source(type: CType, position: Position, line: number): string {
+    switch (type.kind) {
+      case "void":
+        if (position !== "result") {
+          throw new HeaderError(line, "Only results can be void");
+        }
+        return '"void"';
+      case "native":
+        return `"${type.type}"`;
+      case "pointer":
+        return type.to.kind === "function"
+          ? `{ function: ${type.to.name ?? this.#description(type.to, line)} }`
+          : '"pointer"';
+      case "function":
+        if (position !== "parameter") {
+          throw new HeaderError(line, "Functions can only be used through pointers");
+        }
+        return this.#source({ kind: "pointer", to: type }, position, line);
+      case "array":
+        if (position === "parameter") {
+          return '"pointer"';
+        }
+        if (position === "result") {
+          throw new HeaderError(line, "Functions cannot return arrays");
+        }
+        if (type.length === undefined) {
+          throw new HeaderError(line, "Flexible array members are not supported");
+        }
+        return `{ array: ${this.#source(type.of, position, line)}, length: ${type.length} }`;
+      case "struct": {
+        const layout = type.layout ?? this.#structs.get(type.tag!);
+        if (!layout) {
+          throw new HeaderError(
+            line,
+            `struct ${type.tag ?? "(anonymous)"} is used by value but never defined`,
+          );
+        }
+        return `{ struct: ${layout} }`;
+      }
+      case "union":
+        throw new HeaderError(line, "Unions can only be used through pointers");
+    }
+  }
+
+  /**
+   * Reads the type in front of a declarator, defining structs and enums
+   * along the way.
+   */
+  #specifiers(typedef: boolean): CType {
+    const words: string[] = [];
+    let type: CType | undefined;
+    const line = this.#peek()?.line ?? 0;
+    for (let token = this.#peek(); token; token = this.#peek()) {
+      const { text } = token;
+      if (QUALIFIERS.has(text) || this.#ignored.has(text)) {
+        this.#index++;
+      } else if (text === "static") {
+        this.#static = true;
+        this.#index++;
+      } else if (ATTRIBUTES.has(text)) {
+        this.#index++;
+        this.#skipGroup();
+      } else if (type || words.length > 0 ? false : /^(struct|union|enum)$/.test(text)) {
+        type = this.#tagged(typedef);
+      } else if (!type && BUILTIN_WORDS.has(text)) {
+        words.push(text);
+        this.#index++;
+      } else if (!type && words.length === 0 && IDENTIFIER.test(text)) {
+        const standard = STANDARD_TYPES[text];
+        type = this.#typedefs.get(text) ?? (standard && { kind: "native", type: standard });
+        if (!type) {
+          throw new HeaderError(
+            token.line,
+            `Unknown type "${text}", pass it in the ignore option if it is a macro`,
+          );
+        }
+        this.#index++;
+      } else {
+        break;
+      }
+    }
+    if (words.length > 0) {
+      return builtinType(words, line);
+    }
+    if (!type) {
+      this.#unexpected();
+    }
+    return type;
+  }
+
+  #tagged(typedef: boolean): CType {
+    const keyword = this.#next().text;
+    while (ATTRIBUTES.has(this.#peek()?.text ?? "")) {
+      this.#index++;
+      this.#skipGroup();
+    }
+    const line = this.#peek()?.line ?? 0;
+    const tag = IDENTIFIER.test(this.#peek()?.text ?? "") ? this.#next().text : undefined;
+    if (!this.#accept("{")) {
+      if (!tag) {
+        this.#unexpected();
+      }
+      return keyword === "enum" ? ENUM_TYPE : keyword === "union" ? { kind: "union" } : {
+        kind: "struct",
+        tag,
+      };
+    }
+    if (keyword === "union") {
+      this.#index--;
+      this.#skipGroup();
+      this.problems.push({ line, message: "Unions are not supported" });
+      return { kind: "union" };
+    }
+    const body = keyword === "enum" ? this.#enumerators() : this.#fields();
+    // `typedef struct { ... } Name;` is exported as `Name`.
+    const next = this.#peek();
+    const typedefName = typedef && next && IDENTIFIER.test(next.text) &&
+        [";", ","].includes(this.#peek(1)?.text ?? ";")
+      ? next.text
+      : undefined;
+    const name = typedefName ?? tag;
+    if (keyword === "enum") {
+      if (name) {
+        this.#export(name, `export const ${name} = { ${body.join(", ")} } as const;`, line);
+      } else {
+        for (const entry of body) {
+          const [constant, value] = entry.split(": ");
+          this.#export(constant, `export const ${constant} = ${value};`, line);
+        }
+      }
+      return ENUM_TYPE;
+    }
+    if (!name) {
+      throw new HeaderError(line, "Anonymous structs are not supported, give it a tag");
+    }
+    this.#export(name, `export const ${name} = new StructLayout({ ${body.join(", ")} });`, line);
+    this.usesStructs = true;
+    if (tag) {
+      this.#structs.set(tag, name);
+    }
+    return { kind: "struct", tag, layout: name };
+  }
+
+  /**
+   * Reads the fields of a struct body, after its `{`.
+   */
+  #fields(): string[] {
+    const fields: string[] = [];
+    while (!this.#accept("}")) {
+      const base = this.#specifiers(false);
+      do {
+        const line = this.#peek()?.line ?? 0;
+        const { name, type } = this.#declarator(base);
+        if (this.#peek()?.text === ":") {
+          throw new HeaderError(line, `Bit-field "${name}" is not supported`);
+        }
+        if (!name) {
+          throw new HeaderError(line, "Anonymous struct members are not supported");
+        }
+        fields.push(`${name}: ${this.#source(type, "field", line)}`);
+      } while (this.#accept(","));
+      this.#expect(";");
+    }
+    return fields;
+  }
+
+  /**
+   * Reads the enumerators of an enum body, after its `{`.
+   */
+  #enumerators(): string[] {
+    const entries: string[] = [];
+    let value = 0;
+    while (!this.#accept("}")) {
+      const token = this.#next();
+      if (!IDENTIFIER.test(token.text)) {
+        this.#unexpected(token);
+      }
+      if (this.#accept("=")) {
+        value = this.#constant([",", "}"], token.line);
+      }
+      this.#constants.set(token.text, value);
+      entries.push(`${token.text}: ${value}`);
+      value++;
+      if (!this.#accept(",")) {
+        this.#expect("}");
+        break;
+      }
+    }
+    return entries;
+  }
+
+  #declarator(base: CType): { name?: string; type: CType } {
+    let type = base;
+    while (this.#accept("*")) {
+      type = { kind: "pointer", to: type };
+      this.#skipQualifiers();
+    }
+    if (this.#peek()?.text === "(" && this.#peek(1)?.text === "*") {
+      // A function pointer, `result (*name)(parameters)`.
+      this.#index += 2;
+      let pointers = 1;
+      while (this.#accept("*")) {
+        pointers++;
+      }
+      this.#skipQualifiers();
+      const name = IDENTIFIER.test(this.#peek()?.text ?? "") ? this.#next().text : undefined;
+      if (this.#peek()?.text === "[") {
+        throw new HeaderError(this.#peek()!.line, "Arrays of function pointers are not supported");
+      }
+      this.#expect(")");
+      type = this.#parameters(type);
+      for (let index = 0; index < pointers; index++) {
+        type = { kind: "pointer", to: type };
+      }
+      this.#skipQualifiers();
+      return { name, type };
+    }
+    const name = IDENTIFIER.test(this.#peek()?.text ?? "") ? this.#next().text : undefined;
+    if (this.#peek()?.text === "(") {
+      type = this.#parameters(type);
+    }
+    const lengths: (number | undefined)[] = [];
+    while (this.#accept("[")) {
+      const line = this.#peek()?.line ?? 0;
+      lengths.push(this.#accept("]") ? undefined : this.#constant(["]"], line));
+      this.#accept("]");
+    }
+    for (const length of lengths.reverse()) {
+      type = { kind: "array", of: type, length };
+    }
+    this.#skipQualifiers();
+    return { name, type };
+  }
+
+  #parameters(result: CType): FunctionCType {
+    this.#expect("(");
+    const fn: FunctionCType = { kind: "function", parameters: [], result, variadic: false };
+    if (this.#peek()?.text === "void" && this.#peek(1)?.text === ")") {
+      this.#index++;
+    }
+    while (!this.#accept(")")) {
+      if (this.#accept("...")) {
+        fn.variadic = true;
+      } else {
+        fn.parameters.push(this.#declarator(this.#specifiers(false)).type);
+      }
+      if (!this.#accept(",")) {
+        this.#expect(")");
+        break;
+      }
+    }
+    return fn;
+  }
+
+  /**
+   * Evaluates a constant expression up to one of the `stop` tokens, which
+   * is left in place.
+   */
+  #constant(stop: string[], line: number): number {
+    const tokens: Token[] = [];
+    let depth = 0;
+    for (let token = this.#peek(); token; token = this.#peek()) {
+      if (depth === 0 && stop.includes(token.text)) {
+        break;
+      }
+      depth += token.text === "(" ? 1 : token.text === ")" ? -1 : 0;
+      tokens.push(this.#next());
+    }
+    return evaluate(tokens, this.#constants, line);
+  }
+
+  #skipQualifiers(): void {
+    for (let token = this.#peek(); token; token = this.#peek()) {
+      if (QUALIFIERS.has(token.text) || this.#ignored.has(token.text)) {
+        this.#index++;
+      } else if (ATTRIBUTES.has(token.text)) {
+        this.#index++;
+        this.#skipGroup();
+      } else {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Skips a parenthesized or braced group, such as `((packed))`.
+   */
+  #skipGroup(): void {
+    let depth = 0;
+    do {
+      const text = this.#next().text;
+      depth += text === "(" || text === "{" ? 1 : text === ")" || text === "}" ? -1 : 0;
+    } while (depth > 0);
+  }
+
+  #peek(offset = 0): Token | undefined {
+    const index = this.#index + offset;
+    return index < this.#limit ? this.#tokens[index] : undefined;
+  }
+
+  #next(): Token {
+    const token = this.#peek();
+    if (!token) {
+      const last = this.#tokens[Math.min(this.#limit, this.#tokens.length) - 1];
+      throw new HeaderError(last?.line ?? 0, "Unexpected end of declaration");
+    }
+    this.#index++;
+    return token;
+  }
+
+  #accept(text: string): boolean {
+    if (this.#peek()?.text === text) {
+      this.#index++;
+      return true;
+    }
+    return false;
+  }
+
+  #expect(text: string): void {
+    if (!this.#accept(text)) {
+      this.#unexpected();
+    }
+  }
+
+  #atEnd(): boolean {
+    return this.#index >= this.#limit;
+  }
+
+  #unexpected(token = this.#peek()): never {
+    if (!token) {
+      this.#next();
+    }
+    throw new HeaderError(token!.line, `Unexpected "${token!.text}"`);
+  }
+}
+
+/**
+ * Generates the source of a TypeScript module with shim definitions for the
+ * declarations of a C header.
+ */
+export function generateBindings(header: string, options: BindingsOptions = {}): Bindings {
+  const problems: HeaderProblem[] = [];
+  const parser = new HeaderParser(tokenize(header, problems), options.ignore ?? [], problems);
+  parser.parse();
+  const shim = options.shim ?? new URL("./mod.ts", import.meta.url).href;
+  const lines = [
+    `// Generated ${options.source ? `from ${options.source} ` : ""}by shim/bindgen.ts.`,
+    "",
+  ];
+  if (parser.usesStructs) {
+    lines.push(`import { StructLayout } from "${shim}";`);
+  }
+  lines.push(
+    `import type { LibraryDefinition, StoredFunctionDescription } from "${shim}";`,
+    "",
+    ...parser.declarations,
+    "",
+    `export const ${options.name ?? "symbols"} = {`,
+    ...parser.symbols,
+    "} as const satisfies LibraryDefinition;",
+    "",
+  );
+  return { code: lines.join("\n"), problems: problems.sort((a, b) => a.line - b.line) };
+}
+
+if (import.meta.main) {
+  const usage = "Usage: bindgen.ts <header> [--out <file>] [--shim <specifier>] " +
+    "[--name <export>] [--ignore <identifier,...>]";
+  const [path, ...flags] = Deno.args;
+  const options: BindingsOptions & { out?: string } = { source: path };
+  for (let index = 0; index < flags.length; index += 2) {
+    const value = flags[index + 1];
+    switch (value === undefined ? undefined : flags[index]) {
+      case "--out":
+        options.out = value;
+        break;
+      case "--shim":
+        options.shim = value;
+        break;
+      case "--name":
+        options.name = value;
+        break;
+      case "--ignore":
+        options.ignore = value.split(",");
+        break;
+      default:
+        console.error(usage);
+        Deno.exit(2);
+    }
+  }
+  if (!path) {
+    console.error(usage);
+    Deno.exit(2);
+  }
+  const { code, problems } = generateBindings(await Deno.readTextFile(path), options);
+  for (const problem of problems) {
+    console.error(`${path}:${problem.line}: ${problem.message}`);
+  }
+  if (options.out) {
+    await Deno.writeTextFile(options.out, code);
+  } else {
+    console.log(code);
+  }
+}
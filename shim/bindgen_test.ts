@@ -0,0 +1,37 @@
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert@1";
+import { generateBindings } from "./bindgen.ts";
+
+const HEADER = `
+#define VERSION 3
+typedef struct { int32_t x, y; } Point;
+typedef uint8_t (*QueueCallback)(const char *item);
+enum Mode { MODE_A, MODE_B = 4 };
+MYLIB_API uint8_t register_queue_callback(QueueCallback callback);
+double distance(Point a, Point b);
+int printf(const char *format, ...);
+union Value { int i; float f; };
+`;
+
+Deno.test("headers become shim definitions", () => {
+  const { code } = generateBindings(HEADER, { ignore: ["MYLIB_API"], shim: "./mod.ts" });
+  for (
+    const line of [
+      'import { StructLayout } from "./mod.ts";',
+      'export const Point = new StructLayout({ x: "i32", y: "i32" });',
+      'export const QueueCallback = { parameters: ["pointer"], result: "u8" } as const',
+      "export const Mode = { MODE_A: 0, MODE_B: 4 } as const;",
+      '  register_queue_callback: { parameters: [{ function: QueueCallback }], result: "u8" },',
+      '  distance: { parameters: [{ struct: Point }, { struct: Point }], result: "f64" },',
+    ]
+  ) {
+    assertStringIncludes(code, line);
+  }
+});
+
+Deno.test("unsupported constructs are skipped and reported by line", () => {
+  const { code, problems } = generateBindings(HEADER, { ignore: ["MYLIB_API"], name: "lib" });
+  assertStringIncludes(code, "export const lib = {");
+  assertEquals(code.includes("printf"), false);
+  assertEquals(problems.map((problem) => problem.line), [2, 8, 9]);
+  assertStringIncludes(problems[1].message, "Variadic");
+});
@@ -0,0 +1,233 @@
+import { ForeignPointer } from "./pointer.ts";
+import type { CallbackFunction } from "./signatures.ts";
+import { setNativeFactory, StoredCallback } from "./stored_callback.ts";
+import type { StoredFunctionDescription } from "./types.ts";
+import { ForeignPointerView } from "./view.ts";
+
+/**
+ * What a `CallbackStream` does with an invocation while its queue is full:
+ *
+ * - `"block"`: keep the calling foreign thread blocked until there is room.
+ *   Only possible for thread-safe callbacks, and calls on the event-loop
+ *   thread fail with an `FfiDeadlockError` instead. Needs a backend that can
+ *   hold the calling thread, which today only the mock can: passing the
+ *   stream to a library on the Deno backend throws a `TypeError`.
+ * - `"drop-oldest"`: discard the oldest queued invocation.
+ * - `"drop-newest"`: discard the new invocation.
+ */
+export type OverflowPolicy = "block" | "drop-oldest" | "drop-newest";
+
+export interface CallbackStreamOptions {
+  /**
+   * Answer given to native code for every invocation. Must be a valid
+   * return value of the callback, and is required unless its result is
+   * `"void"`.
+   */
+  returns?: unknown;
+  /**
+   * Number of bytes to copy out from behind pointer parameters, by
+   * parameter index: either a fixed length or `{ parameter }`, the index of
+   * the parameter holding the length. Pointer parameters without a declared
+   * length are passed on as `ForeignPointer`s, which native code may free as
+   * soon as the invocation returns.
+   */
+  lengths?: { [parameter: number]: number | { parameter: number } };
+  /**
+   * Invocations queued before the overflow policy applies. Defaults to 64.
+   */
+  capacity?: number;
+  /**
+   * Defaults to `"drop-oldest"`.
+   */
+  overflow?: OverflowPolicy;
+}
+
+/**
+ * Queue of a stream, kept apart from the `CallbackStream` like the state
+ * of a `StoredCallback`.
+ */
+interface StreamState {
+  returns: unknown;
+  lengths: Map<number, number | { parameter: number }>;
+  capacity: number;
+  overflow: OverflowPolicy;
+  queue: unknown[][];
+  readers: ((result: IteratorResult<unknown[]>) => void)[];
+  writers: (() => void)[];
+  closed: boolean;
+  dropped: number;
+}
+
+function push(stream: StreamState, args: unknown[]): unknown {
+  const event = copy(stream, args);
+  const reader = stream.readers.shift();
+  if (reader) {
+    reader({ done: false, value: event });
+    return stream.returns;
+  }
+  if (stream.queue.length < stream.capacity) {
+    stream.queue.push(event);
+    return stream.returns;
+  }
+  switch (stream.overflow) {
+    case "drop-newest":
+      stream.dropped++;
+      return stream.returns;
+    case "drop-oldest":
+      stream.dropped++;
+      stream.queue.shift();
+      stream.queue.push(event);
+      return stream.returns;
+    case "block":
+      return new Promise((resolve) => {
+        stream.writers.push(() => {
+          if (!stream.closed) {
+            stream.queue.push(event);
+          }
+          resolve(stream.returns);
+        });
+      });
+  }
+}
+
+/**
+ * Copies out everything that is only valid during the invocation.
+ */
+function copy(stream: StreamState, args: unknown[]): unknown[] {
+  return args.map((arg, index) => {
+    const length = stream.lengths.get(index);
+    if (length === undefined || !(arg instanceof ForeignPointer)) {
+      return arg;
+    }
+    const byteLength = Number(typeof length === "number" ? length : args[length.parameter]);
+    const bytes = new Uint8Array(byteLength);
+    if (byteLength > 0) {
+      new ForeignPointerView(arg).copyInto(bytes);
+    }
+    return bytes;
+  });
+}
+
+/**
+ * A `StoredCallback` that copies out its arguments, answers native code
+ * right away and queues the invocations for async iteration. This is the
+ * README's advice for foreign-thread callbacks built in: extract the
+ * necessary data hurriedly and return immediately, instead of deferring the
+ * rest via `setTimeout` by hand.
+ *
+ * ```ts
+ * const events = new CallbackStream(
+ *   { parameters: ["pointer", "usize"], result: "void", threadSafe: true },
+ *   { lengths: { 0: { parameter: 1 } }, capacity: 256 },
+ * );
+ * lib.symbols.subscribe(events);
+ * for await (const [bytes, length] of events) {
+ *   // `bytes` is a Uint8Array copy, safe to keep.
+ * }
+ * ```
+ *
+ * Iteration ends once the callback is deleted and the queue is drained.
+ * Breaking out of a `for await` loop does not delete the callback.
+ */
+export class CallbackStream<
+  const Fn extends StoredFunctionDescription = StoredFunctionDescription,
+> extends StoredCallback<Fn> implements AsyncIterable<unknown[]> {
+  #stream: StreamState;
+
+  constructor(description: Fn, options: CallbackStreamOptions = {}) {
+    const overflow = options.overflow ?? "drop-oldest";
+    if (overflow === "block" && !description.threadSafe) {
+      throw new TypeError("Only thread-safe callback streams can block the producer");
+    }
+    if (description.result !== "void" && options.returns === undefined) {
+      throw new TypeError("Callback streams of callbacks with a result need a returns value");
+    }
+    const capacity = options.capacity ?? 64;
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new RangeError("Callback stream capacity must be a positive integer");
+    }
+    const lengths = new Map(
+      Object.entries(options.lengths ?? {}).map(([index, length]) => [Number(index), length]),
+    );
+    for (const [index, length] of lengths) {
+      if (description.parameters[index] !== "pointer") {
+        throw new TypeError(`Parameter ${index} is not a pointer, cannot copy from behind it`);
+      }
+      if (
+        typeof length === "object" &&
+        typeof description.parameters[length.parameter] !== "string"
+      ) {
+        throw new TypeError(`Parameter ${length.parameter} cannot hold a length`);
+      }
+    }
+    const stream: StreamState = {
+      returns: options.returns,
+      lengths,
+      capacity,
+      overflow,
+      queue: [],
+      readers: [],
+      writers: [],
+      closed: false,
+      dropped: 0,
+    };
+    // Streams take the arguments of any description.
+    super(description, ((...args: unknown[]) => push(stream, args)) as CallbackFunction<Fn>);
+    this.#stream = stream;
+    if (overflow === "block") {
+      setNativeFactory(this, (backend, create) => {
+        if (!backend.dispatchesCallbacks) {
+          // The promise of a blocked invocation would be handed to native code.
+          throw new TypeError(
+            'Callback streams overflowing with "block" are not supported by this backend',
+          );
+        }
+        return create();
+      });
+    }
+  }
+
+  /**
+   * Invocations discarded by the overflow policy so far.
+   */
+  get dropped(): number {
+    return this.#stream.dropped;
+  }
+
+  /**
+   * Deletes the callback and ends iteration once the queue is drained.
+   * Producers blocked on a full queue are released and their invocations
+   * discarded.
+   */
+  override delete(): void {
+    super.delete();
+    const stream = this.#stream;
+    stream.closed = true;
+    for (const reader of stream.readers.splice(0)) {
+      reader({ done: true, value: undefined });
+    }
+    stream.dropped += stream.writers.length;
+    stream.writers.splice(0).forEach((release) => release());
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<unknown[]> {
+    return {
+      next: () => this.#next(),
+      return: () => Promise.resolve({ done: true, value: undefined }),
+    };
+  }
+
+  #next(): Promise<IteratorResult<unknown[]>> {
+    const stream = this.#stream;
+    const event = stream.queue.shift();
+    if (event) {
+      // Room for one more: let the longest blocked producer in.
+      stream.writers.shift()?.();
+      return Promise.resolve({ done: false, value: event });
+    }
+    if (stream.closed) {
+      return Promise.resolve({ done: true, value: undefined });
+    }
+    return new Promise((resolve) => stream.readers.push(resolve));
+  }
+}
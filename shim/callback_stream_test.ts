@@ -0,0 +1,117 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert@1";
+import { MockHeap, mockDlopen } from "./mock.ts";
+import { CallbackStream } from "./mod.ts";
+
+const Event = { parameters: ["pointer", "usize"], result: "void" } as const;
+const ThreadSafeEvent = { ...Event, threadSafe: true } as const;
+
+/**
+ * A library that remembers the callback it was given, for the test to call
+ * with `length` bytes of `value` that are freed right after.
+ */
+function eventLibrary(heap = new MockHeap()) {
+  let address = 0n;
+  const lib = mockDlopen({
+    subscribe: { parameters: [{ function: Event }], result: "void" },
+  }, {
+    subscribe(callback: bigint) {
+      address = callback;
+    },
+  }, { heap });
+  const emit = async (value: number, length = 2, foreign = false) => {
+    const bytes = heap.alloc(length);
+    heap.view(bytes, length).setUint8(0, value);
+    try {
+      if (foreign) {
+        await heap.callFromForeignThread(address, bytes, BigInt(length));
+      } else {
+        heap.call(address, bytes, BigInt(length));
+      }
+    } finally {
+      heap.free(bytes);
+    }
+  };
+  return { lib, emit };
+}
+
+Deno.test("invocations are copied out and queued for iteration", async () => {
+  const { lib, emit } = eventLibrary();
+  const events = new CallbackStream(Event, { lengths: { 0: { parameter: 1 } } });
+  lib.symbols.subscribe(events);
+  await emit(1);
+  await emit(2, 3);
+  events.delete();
+  const received = [];
+  for await (const [bytes, length] of events) {
+    received.push([bytes, length]);
+  }
+  assertEquals(received, [[new Uint8Array([1, 0]), 2n], [new Uint8Array([2, 0, 0]), 3n]]);
+});
+
+Deno.test("full queues drop the oldest or the newest invocation", async () => {
+  for (const overflow of ["drop-oldest", "drop-newest"] as const) {
+    const { lib, emit } = eventLibrary();
+    using events = new CallbackStream(Event, { lengths: { 0: 1 }, capacity: 2, overflow });
+    lib.symbols.subscribe(events);
+    for (const value of [1, 2, 3]) {
+      await emit(value);
+    }
+    assertEquals(events.dropped, 1);
+    const iterator = events[Symbol.asyncIterator]();
+    const values = [(await iterator.next()).value[0], (await iterator.next()).value[0]];
+    assertEquals(
+      values,
+      overflow === "drop-oldest"
+        ? [new Uint8Array([2]), new Uint8Array([3])]
+        : [new Uint8Array([1]), new Uint8Array([2])],
+    );
+  }
+});
+
+Deno.test("blocking streams hold foreign threads until there is room", async () => {
+  const { lib, emit } = eventLibrary();
+  const events = new CallbackStream(ThreadSafeEvent, {
+    lengths: { 0: 1 },
+    capacity: 1,
+    overflow: "block",
+  });
+  lib.symbols.subscribe(events);
+  await emit(1, 1, true);
+  let answered = false;
+  const blocked = emit(2, 1, true).then(() => answered = true);
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  assertEquals(answered, false);
+  const iterator = events[Symbol.asyncIterator]();
+  assertEquals((await iterator.next()).value, [new Uint8Array([1]), 1n]);
+  await blocked;
+  assertEquals((await iterator.next()).value, [new Uint8Array([2]), 1n]);
+  events.delete();
+  assertEquals((await iterator.next()).done, true);
+});
+
+Deno.test("blocking streams need a backend that can hold the calling thread", () => {
+  class AnsweringHeap extends MockHeap {
+    override readonly dispatchesCallbacks = false;
+  }
+  const { lib } = eventLibrary(new AnsweringHeap());
+  using events = new CallbackStream(ThreadSafeEvent, { overflow: "block" });
+  assertThrows(() => lib.symbols.subscribe(events), TypeError, '"block"');
+  assertThrows(() => new CallbackStream(Event, { overflow: "block" }), TypeError, "thread-safe");
+});
+
+Deno.test("streams of callbacks with a result answer with returns", async () => {
+  const Filter = { parameters: ["u32"], result: "u8" } as const;
+  let address = 0n;
+  const lib = mockDlopen({
+    subscribe: { parameters: [{ function: Filter }], result: "void" },
+  }, {
+    subscribe(callback: bigint) {
+      address = callback;
+    },
+  });
+  assertThrows(() => new CallbackStream(Filter), TypeError, "need a returns value");
+  using filters = new CallbackStream(Filter, { returns: 1 });
+  lib.symbols.subscribe(filters);
+  assertEquals(lib.heap.call(address, 7), 1);
+  assertEquals((await filters[Symbol.asyncIterator]().next()).value, [7]);
+});
@@ -0,0 +1,148 @@
+/**
+ * Encoding and decoding of NUL-terminated strings, shared by
+ * `OwnedPointer.fromCString`, `ForeignPointerView.getCString` and
+ * `"cstring"` parameters and results.
+ */
+
+import type { NativeBackend } from "./native.ts";
+import type { CStringEncoding, NativeType } from "./types.ts";
+
+export interface CStringOptions {
+  /**
+   * Reads at most this many code units: bytes for `"utf8"` and `"latin1"`,
+   * 16-bit units for `"utf16le"` and 32-bit ones for `"utf32le"`. A string
+   * without a terminator within them is cut off, like `strnlen` does.
+   * Unbounded by default.
+   */
+  maxLength?: number;
+  /**
+   * Defaults to `"utf8"`.
+   */
+  encoding?: CStringEncoding;
+}
+
+const UNIT_TYPES: Record<CStringEncoding, NativeType> = {
+  utf8: "u8",
+  latin1: "u8",
+  utf16le: "u16",
+  utf32le: "u32",
+};
+
+const UNIT_SIZES: Record<CStringEncoding, number> = {
+  utf8: 1,
+  latin1: 1,
+  utf16le: 2,
+  utf32le: 4,
+};
+
+const encoder = new TextEncoder();
+
+function assertEncoding(encoding: unknown): asserts encoding is CStringEncoding {
+  if (typeof encoding !== "string" || !Object.hasOwn(UNIT_SIZES, encoding)) {
+    throw new TypeError(
+      `Unknown C string encoding "${encoding}", ` +
+        'expected "utf8", "latin1", "utf16le" or "utf32le"',
+    );
+  }
+}
+
+/**
+ * Encodes a string, including its terminator. Throws for strings holding a
+ * NUL character, which C would read as the end of the string, and for
+ * characters that Latin-1 cannot represent.
+ */
+export function encodeCString(value: string, encoding: CStringEncoding = "utf8"): Uint8Array {
+  assertEncoding(encoding);
+  if (typeof value !== "string") {
+    throw new TypeError("Expected a string");
+  }
+  if (value.includes("\0")) {
+    throw new TypeError("C strings cannot contain NUL characters");
+  }
+  switch (encoding) {
+    case "utf8": {
+      const encoded = encoder.encode(value);
+      const bytes = new Uint8Array(encoded.byteLength + 1);
+      bytes.set(encoded);
+      return bytes;
+    }
+    case "latin1": {
+      const bytes = new Uint8Array(value.length + 1);
+      for (let index = 0; index < value.length; index++) {
+        const code = value.charCodeAt(index);
+        if (code > 0xff) {
+          throw new RangeError(`Character "${value[index]}" cannot be encoded as Latin-1`);
+        }
+        bytes[index] = code;
+      }
+      return bytes;
+    }
+    case "utf16le": {
+      const units = new Uint16Array(value.length + 1);
+      for (let index = 0; index < value.length; index++) {
+        units[index] = value.charCodeAt(index);
+      }
+      return new Uint8Array(units.buffer);
+    }
+    case "utf32le": {
+      const codePoints = Array.from(value, (character) => character.codePointAt(0)!);
+      return new Uint8Array(Uint32Array.from([...codePoints, 0]).buffer);
+    }
+  }
+}
+
+/**
+ * Decodes a string's code units, without a terminator.
+ */
+function decodeCString(bytes: Uint8Array, encoding: CStringEncoding): string {
+  switch (encoding) {
+    case "utf8":
+      return new TextDecoder().decode(bytes);
+    case "latin1":
+      // Not `TextDecoder("latin1")`, which is really windows-1252.
+      return Array.from(bytes, (byte) => String.fromCharCode(byte)).join("");
+    case "utf16le":
+      return new TextDecoder("utf-16le").decode(bytes);
+    case "utf32le": {
+      const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+      let value = "";
+      for (let offset = 0; offset < bytes.byteLength; offset += 4) {
+        const codePoint = view.getUint32(offset, true);
+        value += codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : "\ufffd";
+      }
+      return value;
+    }
+  }
+}
+
+/**
+ * Reads a string from foreign memory. The terminator is searched one code
+ * unit at a time, so that nothing past it, or past `maxLength`, is read.
+ */
+export function readCString(
+  backend: NativeBackend,
+  pointer: bigint,
+  offset: number,
+  { maxLength = Infinity, encoding = "utf8" }: CStringOptions = {},
+): string {
+  assertEncoding(encoding);
+  if (maxLength !== Infinity && !(Number.isInteger(maxLength) && maxLength >= 0)) {
+    throw new RangeError("Expected maxLength to be a non-negative integer");
+  }
+  if (maxLength === Infinity && encoding === "utf8") {
+    return backend.getCString(pointer, offset);
+  }
+  const size = UNIT_SIZES[encoding];
+  const type = UNIT_TYPES[encoding];
+  let length = 0;
+  while (length < maxLength && backend.read(pointer, offset + length * size, type) !== 0) {
+    length++;
+  }
+  if (length === 0) {
+    return "";
+  }
+  return decodeCString(
+    new Uint8Array(backend.getArrayBuffer(pointer, length * size, offset)),
+    encoding,
+  );
+}
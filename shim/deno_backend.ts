@@ -0,0 +1,292 @@
+/**
+ * Backend running on top of today's unstable Deno FFI. This is the only
+ * module that uses `Deno.UnsafePointer`, `Deno.UnsafePointerView`,
+ * `Deno.UnsafeFnPointer` and `Deno.UnsafeCallback`. Deno passes pointers as
+ * opaque pointer objects, which are converted to and from the shim's
+ * `bigint` addresses at this boundary.
+ */
+
+import type {
+  NativeBackend,
+  NativeCallback,
+  NativeFunction,
+  NativeLibrary,
+  NativeLoan,
+  NativeValue,
+} from "./native.ts";
+import type { FieldType, StructLayout } from "./struct.ts";
+import { isStructType } from "./struct.ts";
+import type {
+  FunctionDescription,
+  LibraryDefinition,
+  NativeType,
+  ParameterType,
+  ResultType,
+  StoredFunctionDescription,
+} from "./types.ts";
+import {
+  isCStringType,
+  isFunctionType,
+  isOutParameterType,
+  isOwningPointerType,
+  isRevokingPointerType,
+} from "./types.ts";
+
+/**
+ * Deno's struct types are lists of field types. Arrays have no counterpart
+ * and are spelled out element by element, which yields the same layout.
+ */
+function lowerStruct(layout: StructLayout): Deno.NativeStructType {
+  const fields: Deno.NativeType[] = [];
+  const lowerField = (type: FieldType) => {
+    if (isStructType(type)) {
+      fields.push(lowerStruct(type.struct));
+    } else if (typeof type === "object" && "array" in type) {
+      for (let index = 0; index < type.length; index++) {
+        lowerField(type.array);
+      }
+    } else {
+      fields.push(isFunctionType(type) ? "pointer" : type);
+    }
+  };
+  Object.values(layout.fields).forEach(lowerField);
+  return { struct: fields };
+}
+
+// The unstable API knows none of the shim's own types. Function parameters become
+// `"function"`. Revoking pointer, C string and out-parameters, and function,
+// owning pointer and C string results are plain pointers. Structs are passed
+// by value as `Uint8Array`s holding their bytes.
+function lowerParameter(type: ParameterType): Deno.NativeType {
+  if (isStructType(type)) {
+    return lowerStruct(type.struct);
+  }
+  if (isRevokingPointerType(type) || isCStringType(type) || isOutParameterType(type)) {
+    return "pointer";
+  }
+  return isFunctionType(type) ? "function" : type;
+}
+
+function lowerResult(type: ResultType): Deno.NativeResultType {
+  if (isStructType(type)) {
+    return lowerStruct(type.struct);
+  }
+  return isFunctionType(type) || isOwningPointerType(type) || isCStringType(type)
+    ? "pointer"
+    : type;
+}
+
+function lowerDescription(description: FunctionDescription): Deno.ForeignFunction {
+  return {
+    parameters: description.parameters.map(lowerParameter),
+    result: lowerResult(description.result),
+    nonblocking: description.nonblocking,
+  };
+}
+
+function isPointerLike(type: ParameterType | ResultType): boolean {
+  return type === "pointer" || isFunctionType(type) || isOwningPointerType(type) ||
+    isRevokingPointerType(type) || isCStringType(type) || isOutParameterType(type);
+}
+
+function toUnsafePointer(value: NativeValue): Deno.PointerValue {
+  if (typeof value === "bigint") {
+    return Deno.UnsafePointer.create(value);
+  }
+  if (ArrayBuffer.isView(value)) {
+    // Borrowed for the duration of a synchronous call.
+    return Deno.UnsafePointer.of(value);
+  }
+  if (value === null || value === undefined) {
+    return null;
+  }
+  throw new TypeError("Expected a pointer address or a buffer");
+}
+
+function fromUnsafePointer(value: Deno.PointerValue): bigint {
+  return BigInt(Deno.UnsafePointer.value(value));
+}
+
+/**
+ * Lowers an argument. Numbers, bigints, booleans and the bytes of structs
+ * are taken by Deno as they are.
+ */
+function toNative(type: ParameterType, value: NativeValue): Deno.ToNativeType {
+  return isPointerLike(type) ? toUnsafePointer(value) : value as Deno.ToNativeType;
+}
+
+function pointerObject<T = unknown>(pointer: bigint): Deno.PointerObject<T> {
+  const object = Deno.UnsafePointer.create<T>(pointer);
+  if (object === null) {
+    throw new TypeError("Cannot read through a null pointer");
+  }
+  return object;
+}
+
+function wrap(
+  description: FunctionDescription,
+  call: (
+    ...args: Deno.ToNativeType[]
+  ) => Deno.FromNativeResultType | Promise<Deno.FromNativeResultType>,
+): NativeFunction {
+  const pointerResult = isPointerLike(description.result);
+  return (...args) => {
+    const lowered = args.map((arg, index) => toNative(description.parameters[index], arg));
+    const result = call(...lowered);
+    if (!pointerResult) {
+      return result;
+    }
+    return description.nonblocking
+      ? (result as Promise<Deno.PointerValue>).then(fromUnsafePointer)
+      : fromUnsafePointer(result as Deno.PointerValue);
+  };
+}
+
+/**
+ * Opens a library through `Deno.dlopen`, lowering the shim's definitions
+ * into ones the unstable API understands.
+ */
+export function denoDlopen(path: string | URL, symbols: LibraryDefinition): NativeLibrary {
+  const lowered: Record<string, Deno.ForeignFunction> = {};
+  for (const [key, definition] of Object.entries(symbols)) {
+    lowered[key] = { ...lowerDescription(definition), name: definition.name };
+  }
+  const lib = Deno.dlopen(path, lowered);
+  const wrapped: Record<string, NativeFunction> = {};
+  for (const [key, definition] of Object.entries(symbols)) {
+    const symbol = lib.symbols[key] as (
+      ...args: Deno.ToNativeType[]
+    ) => Deno.FromNativeResultType | Promise<Deno.FromNativeResultType>;
+    wrapped[key] = wrap(definition, symbol);
+  }
+  return { symbols: wrapped, close: () => lib.close() };
+}
+
+export const denoBackend: NativeBackend = {
+  kind: "deno",
+
+  lend(buffer: ArrayBuffer): NativeLoan {
+    // The backing store does not move when the buffer is transferred, so
+    // the address stays valid for as long as the caller holds on to it.
+    const pointer = fromUnsafePointer(Deno.UnsafePointer.of(buffer));
+    return { pointer, release() {} };
+  },
+
+  aliasBuffer(buffer: ArrayBuffer, byteOffset: number, byteLength: number): ArrayBuffer | null {
+    // Getting at the backing store takes FFI access.
+    if (byteLength === 0 || Deno.permissions.querySync({ name: "ffi" }).state !== "granted") {
+      return null;
+    }
+    const pointer = Deno.UnsafePointer.of(buffer)!;
+    return Deno.UnsafePointerView.getArrayBuffer(pointer, byteLength, byteOffset);
+  },
+
+  read(pointer: bigint, offset: number, type: NativeType): number | bigint {
+    const pointerView = new Deno.UnsafePointerView(pointerObject(pointer));
+    switch (type) {
+      case "u8":
+        return pointerView.getUint8(offset);
+      case "i8":
+        return pointerView.getInt8(offset);
+      case "u16":
+        return pointerView.getUint16(offset);
+      case "i16":
+        return pointerView.getInt16(offset);
+      case "u32":
+        return pointerView.getUint32(offset);
+      case "i32":
+        return pointerView.getInt32(offset);
+      case "u64":
+      case "usize":
+      case "pointer":
+        return pointerView.getBigUint64(offset);
+      case "i64":
+      case "isize":
+        return pointerView.getBigInt64(offset);
+      case "f32":
+        return pointerView.getFloat32(offset);
+      case "f64":
+        return pointerView.getFloat64(offset);
+    }
+  },
+
+  getArrayBuffer(pointer: bigint, byteLength: number, offset: number): ArrayBuffer {
+    // Copies, as an alias would keep the memory reachable after it was freed.
+    return Deno.UnsafePointerView.getArrayBuffer(pointerObject(pointer), byteLength, offset)
+      .slice(0);
+  },
+
+  copyInto(pointer: bigint, destination: ArrayBufferView, offset: number): void {
+    Deno.UnsafePointerView.copyInto(
+      pointerObject(pointer),
+      new Uint8Array(destination.buffer, destination.byteOffset, destination.byteLength),
+      offset,
+    );
+  },
+
+  getCString(pointer: bigint, offset: number): string {
+    return Deno.UnsafePointerView.getCString(pointerObject(pointer), offset);
+  },
+
+  bindFunction(pointer: bigint, description: FunctionDescription): NativeFunction {
+    const fnPointer = new Deno.UnsafeFnPointer(
+      pointerObject(pointer),
+      lowerDescription(description),
+    );
+    return wrap(description, (...args) => fnPointer.call(...args));
+  },
+
+  createCallback(
+    description: StoredFunctionDescription,
+    callback: NativeFunction,
+  ): NativeCallback {
+    if (description.nonblocking || description.reply) {
+      // The unstable API has no way to await a callback's result before
+      // returning to the calling thread.
+      throw new TypeError(
+        "Nonblocking and reply handle stored callbacks are not supported by the Deno backend",
+      );
+    }
+    const pointerResult = isPointerLike(description.result);
+    const unsafeCallback = new Deno.UnsafeCallback(
+      lowerDescription(description),
+      (...args: Deno.FromNativeType[]): Deno.ToNativeResultType => {
+        const lifted = args.map((arg, index) =>
+          isPointerLike(description.parameters[index])
+            ? fromUnsafePointer(arg as Deno.PointerValue)
+            : arg as NativeValue
+        );
+        const result = callback(...lifted);
+        return pointerResult
+          ? toUnsafePointer(result as bigint)
+          : result as Deno.ToNativeResultType;
+      },
+    );
+    if (description.threadSafe) {
+      // Keep the event loop alive so that calls from other threads can be served.
+      unsafeCallback.ref();
+    }
+    return {
+      pointer: fromUnsafePointer(unsafeCallback.pointer),
+      close: () => unsafeCallback.close(),
+    };
+  },
+
+  // `Deno.UnsafeCallback` hands whatever the callback returned to native
+  // code right away, promises included.
+  dispatchesCallbacks: false,
+
+  // `Deno.UnsafeCallback` always calls into the isolate that created it,
+  // there is no way to have native threads call into a pool of workers.
+  poolsCallbacks: false,
+
+  createPooledCallback(): NativeCallback {
+    throw new TypeError("Worker pool stored callbacks are not supported by the Deno backend");
+  },
+
+  abort(error: unknown): never {
+    console.error("Aborting: a stored callback threw", error);
+    // 134 is what a process killed by SIGABRT exits with.
+    Deno.exit(134);
+  },
+};
@@ -0,0 +1,522 @@
+/**
+ * Dispatching of thread-safe callback calls onto the event loop.
+ *
+ * `thread-safe-callbacks/caveats.ts` sketches a single-slot channel used
+ * 1-to-1. This is the real thing: a bounded multi-producer ring buffer in a
+ * `SharedArrayBuffer`, where every call gets its own slot carrying the
+ * argument payload and, once answered, the reply. Any number of foreign
+ * threads can be blocked on their calls at once; each one only ever waits on
+ * and reads its own slot.
+ *
+ * The ring follows Vyukov's bounded queue: every slot has a sequence number
+ * telling which ticket may use it next, so producers never overwrite a slot
+ * whose previous call has not been answered and read yet.
+ *
+ * Several consumers may share a ring, eg. a pool of workers each claiming
+ * the next queued call, see `WorkerPoolCallback`.
+ *
+ * Calls made on the event-loop thread itself never go through the ring,
+ * since blocking there would keep the event loop from ever answering. They
+ * call the callback directly instead, which fails with an `FfiDeadlockError`
+ * if the callback cannot answer synchronously.
+ */
+
+import { FfiDeadlockError } from "./errors.ts";
+import type { FfiDeadlockDiagnostics } from "./errors.ts";
+import type { NativeFunction, NativeValue } from "./native.ts";
+import { isStructType } from "./struct.ts";
+import type { ParameterType, ResultType, StoredFunctionDescription } from "./types.ts";
+import { isCStringType, isFunctionType } from "./types.ts";
+
+// Header words.
+const HEAD = 0;
+const TAIL = 1;
+const RUNNING = 2;
+const DOORBELL = 3;
+const IN_FLIGHT = 4;
+const HEADER_BYTES = 24;
+
+// Slot header words, followed by the arguments and the reply.
+const SEQUENCE = 0;
+const STATE = 1;
+const SLOT_HEADER_BYTES = 8;
+
+const PENDING = 1;
+const REPLIED = 2;
+const FAILED = 3;
+/**
+ * The producer gave up waiting, the consumer frees the slot once done.
+ */
+const ABANDONED = 4;
+
+const BIGINT_TYPES = new Set<unknown>(["u64", "i64", "usize", "isize", "pointer"]);
+
+/**
+ * Errors thrown by callbacks, for producers running in the same realm as
+ * the event loop. Other realms only learn that the call failed.
+ */
+const callbackErrors = new WeakMap<SharedArrayBuffer, Map<number, unknown>>();
+
+interface SlotLayout {
+  parameters: number[];
+  result: number;
+  byteLength: number;
+}
+
+function payloadSize(type: ParameterType | ResultType): number {
+  if (type === "void") {
+    return 0;
+  }
+  if (isStructType(type)) {
+    return Math.ceil(type.struct.size / 8) * 8;
+  }
+  return 8;
+}
+
+function slotLayout(description: StoredFunctionDescription): SlotLayout {
+  let offset = SLOT_HEADER_BYTES;
+  const parameters = description.parameters.map((type) => {
+    const start = offset;
+    offset += payloadSize(type);
+    return start;
+  });
+  return { parameters, result: offset, byteLength: offset + payloadSize(description.result) };
+}
+
+function writeValue(
+  view: DataView,
+  offset: number,
+  type: ParameterType | ResultType,
+  value: unknown,
+): void {
+  if (type === "void") {
+    return;
+  }
+  if (isStructType(type)) {
+    const bytes = value as ArrayBufferView;
+    new Uint8Array(view.buffer, view.byteOffset + offset, type.struct.size)
+      .set(new Uint8Array(bytes.buffer, bytes.byteOffset, type.struct.size));
+  } else if (isFunctionType(type) || isCStringType(type) || BIGINT_TYPES.has(type)) {
+    view.setBigUint64(offset, BigInt.asUintN(64, BigInt((value ?? 0n) as bigint)), true);
+  } else {
+    view.setFloat64(offset, Number(value), true);
+  }
+}
+
+function readValue(
+  view: DataView,
+  offset: number,
+  type: ParameterType | ResultType,
+): NativeValue {
+  if (type === "void") {
+    return undefined;
+  }
+  if (isStructType(type)) {
+    // Copied out: the slot is reused as soon as the call is answered.
+    return new Uint8Array(view.buffer, view.byteOffset + offset, type.struct.size).slice();
+  }
+  if (
+    isFunctionType(type) || isCStringType(type) || type === "pointer" || type === "u64" ||
+    type === "usize"
+  ) {
+    return view.getBigUint64(offset, true);
+  }
+  if (type === "i64" || type === "isize") {
+    return view.getBigInt64(offset, true);
+  }
+  return view.getFloat64(offset, true);
+}
+
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return typeof (value as PromiseLike<unknown> | null)?.then === "function";
+}
+
+function diagnose(
+  words: Int32Array,
+  capacity: number,
+  reason: FfiDeadlockDiagnostics["reason"],
+  thread: FfiDeadlockDiagnostics["thread"],
+): FfiDeadlockError {
+  return new FfiDeadlockError({
+    reason,
+    thread,
+    pending: ((Atomics.load(words, TAIL) - Atomics.load(words, HEAD)) | 0) +
+      Atomics.load(words, IN_FLIGHT),
+    capacity,
+    consumerRunning: Atomics.load(words, RUNNING) === 1,
+  });
+}
+
+function slotCount(buffer: SharedArrayBuffer, layout: SlotLayout): number {
+  return (buffer.byteLength - HEADER_BYTES) / layout.byteLength;
+}
+
+/**
+ * Allocates and initializes a ring for the given callback description.
+ */
+export function createDispatcherBuffer(
+  description: StoredFunctionDescription,
+  capacity = 64,
+): SharedArrayBuffer {
+  if (!Number.isInteger(capacity) || capacity < 1 || (capacity & (capacity - 1)) !== 0) {
+    throw new RangeError("Dispatcher capacity must be a power of two");
+  }
+  const layout = slotLayout(description);
+  const buffer = new SharedArrayBuffer(HEADER_BYTES + capacity * layout.byteLength);
+  const words = new Int32Array(buffer);
+  for (let slot = 0; slot < capacity; slot++) {
+    words[(HEADER_BYTES + slot * layout.byteLength) / 4 + SEQUENCE] = slot;
+  }
+  words[RUNNING] = 1;
+  return buffer;
+}
+
+/**
+ * Stops all consumers of a ring. Foreign threads waiting on a call, or
+ * calling later, fail with an `FfiDeadlockError` instead of waiting forever.
+ */
+export function closeDispatcherBuffer(buffer: SharedArrayBuffer): void {
+  const words = new Int32Array(buffer);
+  Atomics.store(words, RUNNING, 0);
+  // Wakes up everyone waiting on any word of the ring.
+  for (let index = 0; index < words.length; index++) {
+    Atomics.notify(words, index);
+  }
+}
+
+export interface CallbackDispatcherOptions {
+  /**
+   * Number of calls that can be queued at once, a power of two. Further
+   * producers wait for a slot to come free. Defaults to 64.
+   */
+  capacity?: number;
+  /**
+   * Consume an existing ring, such as one created with
+   * `createDispatcherBuffer` in another thread, instead of a new one.
+   */
+  buffer?: SharedArrayBuffer;
+}
+
+/**
+ * Event-loop side of a thread-safe callback: consumes calls queued by
+ * foreign threads and writes back the replies. Hand `buffer` to the threads
+ * calling the callback, which call it through a `DispatcherProducer`.
+ *
+ * `callback` receives and returns raw values. A callback returning a promise
+ * is answered once the promise settles, without holding up other calls.
+ */
+export class CallbackDispatcher {
+  readonly buffer: SharedArrayBuffer;
+  #callback: NativeFunction;
+  #description: StoredFunctionDescription;
+  #layout: SlotLayout;
+  #capacity: number;
+  #words: Int32Array;
+  #view: DataView;
+
+  constructor(
+    description: StoredFunctionDescription,
+    callback: NativeFunction,
+    options: CallbackDispatcherOptions = {},
+  ) {
+    this.#callback = callback;
+    this.#description = description;
+    this.#layout = slotLayout(description);
+    this.buffer = options.buffer ?? createDispatcherBuffer(description, options.capacity);
+    this.#capacity = slotCount(this.buffer, this.#layout);
+    if (!Number.isInteger(this.#capacity)) {
+      throw new TypeError("Buffer does not belong to a dispatcher for this description");
+    }
+    this.#words = new Int32Array(this.buffer);
+    this.#view = new DataView(this.buffer);
+    if (!callbackErrors.has(this.buffer)) {
+      callbackErrors.set(this.buffer, new Map());
+    }
+    this.#consume();
+  }
+
+  /**
+   * Calls queued or being answered.
+   */
+  get pending(): number {
+    return ((Atomics.load(this.#words, TAIL) - Atomics.load(this.#words, HEAD)) | 0) +
+      Atomics.load(this.#words, IN_FLIGHT);
+  }
+
+  /**
+   * Calls the callback on the event-loop thread, eg. when native code calls
+   * it synchronously from within a foreign call. Throws an `FfiDeadlockError`
+   * if the callback does not answer synchronously.
+   */
+  callDirect(...args: NativeValue[]): unknown {
+    const result = this.#callback(...args);
+    if (isThenable(result)) {
+      // Not awaited by anyone, keep it from surfacing as an unhandled rejection.
+      result.then(undefined, () => {});
+      throw diagnose(this.#words, this.#capacity, "async-result", "event-loop");
+    }
+    return result;
+  }
+
+  /**
+   * Stops consuming calls, see `closeDispatcherBuffer`.
+   */
+  close(): void {
+    closeDispatcherBuffer(this.buffer);
+  }
+
+  #slotWord(slot: number, word: number): number {
+    return (HEADER_BYTES + slot * this.#layout.byteLength) / 4 + word;
+  }
+
+  async #consume(): Promise<void> {
+    while (Atomics.load(this.#words, RUNNING) === 1) {
+      // Read the doorbell first: a call published after this read rings it
+      // again, so waiting on this value cannot miss it.
+      const doorbell = Atomics.load(this.#words, DOORBELL);
+      for (;;) {
+        const head = Atomics.load(this.#words, HEAD);
+        const slot = head & (this.#capacity - 1);
+        if (Atomics.load(this.#words, this.#slotWord(slot, SEQUENCE)) !== ((head + 1) | 0)) {
+          break;
+        }
+        // Other consumers of the ring may race us for the call.
+        if (Atomics.compareExchange(this.#words, HEAD, head, (head + 1) | 0) === head) {
+          this.#dispatch(head, slot);
+        }
+      }
+      const wait = Atomics.waitAsync(this.#words, DOORBELL, doorbell);
+      if (wait.async) {
+        await wait.value;
+      }
+    }
+  }
+
+  #dispatch(ticket: number, slot: number): void {
+    const base = HEADER_BYTES + slot * this.#layout.byteLength;
+    if (Atomics.load(this.#words, this.#slotWord(slot, STATE)) === ABANDONED) {
+      this.#free(ticket, slot);
+      return;
+    }
+    const args = this.#description.parameters.map((type, index) =>
+      readValue(this.#view, base + this.#layout.parameters[index], type)
+    );
+    Atomics.add(this.#words, IN_FLIGHT, 1);
+    let result: unknown;
+    try {
+      result = this.#callback(...args);
+    } catch (error) {
+      this.#reply(ticket, slot, FAILED, error);
+      return;
+    }
+    if (isThenable(result)) {
+      result.then(
+        (value) => this.#reply(ticket, slot, REPLIED, value),
+        (error) => this.#reply(ticket, slot, FAILED, error),
+      );
+    } else {
+      this.#reply(ticket, slot, REPLIED, result);
+    }
+  }
+
+  #reply(ticket: number, slot: number, state: number, value: unknown): void {
+    const base = HEADER_BYTES + slot * this.#layout.byteLength;
+    if (state === REPLIED) {
+      try {
+        writeValue(this.#view, base + this.#layout.result, this.#description.result, value);
+      } catch (error) {
+        state = FAILED;
+        value = error;
+      }
+    }
+    if (state === FAILED) {
+      callbackErrors.get(this.buffer)!.set(ticket, value);
+    }
+    Atomics.sub(this.#words, IN_FLIGHT, 1);
+    const stateWord = this.#slotWord(slot, STATE);
+    if (Atomics.compareExchange(this.#words, stateWord, PENDING, state) === ABANDONED) {
+      callbackErrors.get(this.buffer)!.delete(ticket);
+      this.#free(ticket, slot);
+      return;
+    }
+    Atomics.notify(this.#words, stateWord);
+  }
+
+  #free(ticket: number, slot: number): void {
+    Atomics.store(this.#words, this.#slotWord(slot, STATE), 0);
+    const sequence = this.#slotWord(slot, SEQUENCE);
+    Atomics.store(this.#words, sequence, (ticket + this.#capacity) | 0);
+    Atomics.notify(this.#words, sequence);
+  }
+}
+
+export interface DispatcherProducerOptions {
+  /**
+   * Milliseconds to wait for the event loop before failing with an
+   * `FfiDeadlockError`. Waits forever by default.
+   */
+  timeout?: number;
+}
+
+interface Wait {
+  index: number;
+  value: number;
+  timeout: number;
+}
+
+/**
+ * Foreign-thread side of a thread-safe callback: queues calls into a
+ * `CallbackDispatcher`'s buffer and blocks until they are answered.
+ *
+ * Must not be used on the event-loop thread of the dispatcher, which could
+ * then never answer. Call `CallbackDispatcher.callDirect` there instead.
+ */
+export class DispatcherProducer {
+  #description: StoredFunctionDescription;
+  #layout: SlotLayout;
+  #buffer: SharedArrayBuffer;
+  #capacity: number;
+  #words: Int32Array;
+  #view: DataView;
+  #timeout: number;
+
+  constructor(
+    buffer: SharedArrayBuffer,
+    description: StoredFunctionDescription,
+    options: DispatcherProducerOptions = {},
+  ) {
+    this.#description = description;
+    this.#layout = slotLayout(description);
+    this.#buffer = buffer;
+    this.#capacity = slotCount(buffer, this.#layout);
+    if (!Number.isInteger(this.#capacity)) {
+      throw new TypeError("Buffer does not belong to a dispatcher for this description");
+    }
+    this.#words = new Int32Array(buffer);
+    this.#view = new DataView(buffer);
+    this.#timeout = options.timeout ?? Infinity;
+  }
+
+  /**
+   * Calls the callback, blocking the current thread until it is answered.
+   */
+  call(...args: NativeValue[]): NativeValue {
+    const steps = this.#steps(args);
+    let step = steps.next();
+    while (!step.done) {
+      const { index, value, timeout } = step.value;
+      step = steps.next(Atomics.wait(this.#words, index, value, timeout));
+    }
+    return step.value;
+  }
+
+  /**
+   * Calls the callback, resolving once it is answered. For producers that
+   * cannot block, such as simulated foreign threads.
+   */
+  async callAsync(...args: NativeValue[]): Promise<NativeValue> {
+    // A blocked thread keeps the process alive, but Deno does not wait for
+    // `Atomics.waitAsync` alone.
+    const keepAlive = setInterval(() => {}, 2 ** 30);
+    try {
+      const steps = this.#steps(args);
+      let step = steps.next();
+      while (!step.done) {
+        const { index, value, timeout } = step.value;
+        const wait = Atomics.waitAsync(this.#words, index, value, timeout);
+        step = steps.next(wait.async ? await wait.value : wait.value);
+      }
+      return step.value;
+    } finally {
+      clearInterval(keepAlive);
+    }
+  }
+
+  /**
+   * The ring protocol, yielding wherever the producer has to wait so that
+   * the same steps serve both blocking and asynchronous waiting.
+   */
+  *#steps(args: NativeValue[]): Generator<Wait, NativeValue, string> {
+    const deadline = performance.now() + this.#timeout;
+    const ticket = yield* this.#claim(deadline);
+    const base = this.#slotBase(ticket);
+    const sequence = base / 4 + SEQUENCE;
+    const state = base / 4 + STATE;
+    try {
+      this.#description.parameters.forEach((type, index) =>
+        writeValue(this.#view, base + this.#layout.parameters[index], type, args[index])
+      );
+      Atomics.store(this.#words, state, PENDING);
+    } catch (error) {
+      // The ticket is taken: publish it for the consumer to skip.
+      Atomics.store(this.#words, state, ABANDONED);
+      throw error;
+    } finally {
+      Atomics.store(this.#words, sequence, (ticket + 1) | 0);
+      Atomics.add(this.#words, DOORBELL, 1);
+      Atomics.notify(this.#words, DOORBELL);
+    }
+    try {
+      while (Atomics.load(this.#words, state) === PENDING) {
+        yield* this.#wait(state, PENDING, deadline);
+      }
+    } catch (error) {
+      // Leave the slot to the consumer, unless the reply came in meanwhile.
+      if (Atomics.compareExchange(this.#words, state, PENDING, ABANDONED) === PENDING) {
+        throw error;
+      }
+    }
+    const replied = Atomics.load(this.#words, state) === REPLIED;
+    const result = replied
+      ? readValue(this.#view, base + this.#layout.result, this.#description.result)
+      : undefined;
+    const errors = callbackErrors.get(this.#buffer);
+    const error = errors?.get(ticket);
+    errors?.delete(ticket);
+    Atomics.store(this.#words, state, 0);
+    Atomics.store(this.#words, sequence, (ticket + this.#capacity) | 0);
+    Atomics.notify(this.#words, sequence);
+    if (!replied) {
+      throw error ?? new Error("Thread-safe callback threw");
+    }
+    return result;
+  }
+
+  /**
+   * Takes the next ticket once its slot is free. Tickets are only taken
+   * then, so that a producer giving up while the ring is full leaves no
+   * ticket behind that the consumer would wait for forever.
+   */
+  *#claim(deadline: number): Generator<Wait, number, string> {
+    for (;;) {
+      const ticket = Atomics.load(this.#words, TAIL);
+      const sequence = this.#slotBase(ticket) / 4 + SEQUENCE;
+      const current = Atomics.load(this.#words, sequence);
+      const lag = (current - ticket) | 0;
+      if (lag === 0) {
+        if (Atomics.compareExchange(this.#words, TAIL, ticket, (ticket + 1) | 0) === ticket) {
+          return ticket;
+        }
+      } else if (lag < 0) {
+        // The slot still holds the call from the previous lap.
+        yield* this.#wait(sequence, current, deadline);
+      }
+      // Otherwise another producer took the ticket meanwhile.
+    }
+  }
+
+  #slotBase(ticket: number): number {
+    return HEADER_BYTES + (ticket & (this.#capacity - 1)) * this.#layout.byteLength;
+  }
+
+  *#wait(index: number, value: number, deadline: number): Generator<Wait, void, string> {
+    if (Atomics.load(this.#words, RUNNING) !== 1) {
+      throw diagnose(this.#words, this.#capacity, "dispatcher-closed", "foreign");
+    }
+    const remaining = deadline - performance.now();
+    const outcome = remaining > 0 ? yield { index, value, timeout: remaining } : "timed-out";
+    if (outcome === "timed-out") {
+      throw diagnose(this.#words, this.#capacity, "timeout", "foreign");
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import { assertEquals, assertRejects, assertThrows } from "jsr:@std/assert@1";
+import { CallbackDispatcher, DispatcherProducer, FfiDeadlockError } from "./mod.ts";
+import type { NativeValue } from "./native.ts";
+import type { StoredFunctionDescription } from "./types.ts";
+
+const Add = { parameters: ["u32", "i64"], result: "i64", threadSafe: true } as const;
+
+function dispatch(
+  description: StoredFunctionDescription,
+  callback: (...args: NativeValue[]) => unknown,
+  capacity?: number,
+) {
+  const dispatcher = new CallbackDispatcher(description, callback, { capacity });
+  const producer = new DispatcherProducer(dispatcher.buffer, description);
+  return { dispatcher, producer };
+}
+
+Deno.test("calls queued by producers are answered on the event loop", async () => {
+  const { dispatcher, producer } = dispatch(
+    Add,
+    (a, b) => BigInt(a as number) + (b as bigint),
+  );
+  try {
+    assertEquals(await producer.callAsync(2, -5n), -3n);
+    const answers = await Promise.all(
+      Array.from({ length: 10 }, (_, index) => producer.callAsync(index, 1n)),
+    );
+    assertEquals(answers, Array.from({ length: 10 }, (_, index) => BigInt(index) + 1n));
+    assertEquals(dispatcher.pending, 0);
+  } finally {
+    dispatcher.close();
+  }
+});
+
+Deno.test("more calls than slots wait for a slot to come free", async () => {
+  let answer = 0;
+  const { dispatcher, producer } = dispatch(
+    { parameters: [], result: "u32", threadSafe: true },
+    async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return ++answer;
+    },
+    2,
+  );
+  try {
+    const answers = await Promise.all(Array.from({ length: 5 }, () => producer.callAsync()));
+    assertEquals(answers.sort(), [1, 2, 3, 4, 5]);
+  } finally {
+    dispatcher.close();
+  }
+});
+
+Deno.test("callback errors are rethrown to producers in the same realm", async () => {
+  const { dispatcher, producer } = dispatch(Add, () => {
+    throw new RangeError("no");
+  });
+  try {
+    await assertRejects(() => producer.callAsync(1, 1n), RangeError, "no");
+  } finally {
+    dispatcher.close();
+  }
+});
+
+Deno.test("direct calls fail instead of deadlocking on promises", () => {
+  const { dispatcher } = dispatch(Add, () => Promise.resolve(1n));
+  try {
+    const error = assertThrows(() => dispatcher.callDirect(1, 1n), FfiDeadlockError);
+    assertEquals(error.diagnostics.reason, "async-result");
+    assertEquals(error.diagnostics.thread, "event-loop");
+  } finally {
+    dispatcher.close();
+  }
+});
+
+Deno.test("producers time out waiting for an answer", async () => {
+  const { promise, resolve } = Promise.withResolvers<bigint>();
+  const dispatcher = new CallbackDispatcher(Add, () => promise);
+  const producer = new DispatcherProducer(dispatcher.buffer, Add, { timeout: 10 });
+  try {
+    const error = await assertRejects(() => producer.callAsync(1, 1n), FfiDeadlockError);
+    assertEquals(error.diagnostics.reason, "timeout");
+    assertEquals(error.diagnostics.pending, 1);
+    // The late answer frees the abandoned slot for the next call.
+    resolve(2n);
+    await promise;
+    assertEquals(dispatcher.pending, 0);
+  } finally {
+    dispatcher.close();
+  }
+});
+
+Deno.test("producers giving up on a full ring leave it usable", async () => {
+  const answers: PromiseWithResolvers<number>[] = [];
+  const description = { parameters: [], result: "u32", threadSafe: true } as const;
+  const { dispatcher, producer } = dispatch(description, () => {
+    answers.push(Promise.withResolvers());
+    return answers.at(-1)!.promise;
+  }, 2);
+  const impatient = new DispatcherProducer(dispatcher.buffer, description, { timeout: 10 });
+  try {
+    const queued = [producer.callAsync(), producer.callAsync()];
+    const error = await assertRejects(() => impatient.callAsync(), FfiDeadlockError);
+    assertEquals(error.diagnostics.reason, "timeout");
+    answers.forEach(({ resolve }, index) => resolve(index));
+    assertEquals(await Promise.all(queued), [0, 1]);
+    const later = producer.callAsync();
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    answers[2].resolve(2);
+    assertEquals(await later, 2);
+  } finally {
+    dispatcher.close();
+  }
+});
+
+Deno.test("arguments that cannot be written fail only their own call", async () => {
+  const { dispatcher, producer } = dispatch(Add, (a, b) => BigInt(a as number) + (b as bigint));
+  try {
+    await assertRejects(() => producer.callAsync(1, 1.5), RangeError);
+    assertEquals(await producer.callAsync(1, 1n), 2n);
+    assertEquals(dispatcher.pending, 0);
+  } finally {
+    dispatcher.close();
+  }
+});
+
+Deno.test("closing the dispatcher fails waiting and later producers", async () => {
+  const { promise, resolve } = Promise.withResolvers<bigint>();
+  const { dispatcher, producer } = dispatch(Add, () => promise);
+  const waiting = producer.callAsync(1, 1n);
+  await new Promise((resolve) => setTimeout(resolve, 1));
+  dispatcher.close();
+  const error = await assertRejects(() => waiting, FfiDeadlockError);
+  assertEquals(error.diagnostics.reason, "dispatcher-closed");
+  assertEquals(error.diagnostics.consumerRunning, false);
+  await assertRejects(() => producer.callAsync(1, 1n), FfiDeadlockError);
+  resolve(0n);
+});
+
+Deno.test("rings only serve the description they were created for", () => {
+  const { dispatcher } = dispatch(Add, () => 0n, 4);
+  try {
+    assertThrows(
+      () =>
+        new DispatcherProducer(dispatcher.buffer, {
+          parameters: ["u8", "u8", "u8", "u8"],
+          result: "void",
+          threadSafe: true,
+        }),
+      TypeError,
+      "does not belong",
+    );
+    assertThrows(() => new CallbackDispatcher(Add, () => 0n, { capacity: 3 }), RangeError);
+  } finally {
+    dispatcher.close();
+  }
+});
@@ -0,0 +1,167 @@
+import type { FfiLeak } from "./leaks.ts";
+import type { FfiDefinitionProblem } from "./validate.ts";
+
+/**
+ * Thrown by `assertNoFfiLeaks` when leaked FFI handles were found.
+ */
+export class FfiLeakError extends Error {
+  readonly leaks: FfiLeak[];
+
+  constructor(leaks: FfiLeak[]) {
+    super(
+      `Found ${leaks.length} leaked FFI handle(s):\n` +
+        leaks.map((leak) => `- ${leak.message}`).join("\n"),
+    );
+    this.name = "FfiLeakError";
+    this.leaks = leaks;
+  }
+}
+
+/**
+ * Thrown when library or callback definitions break the proposal's rules,
+ * see `validateDefinitions`.
+ */
+export class FfiDefinitionError extends TypeError {
+  readonly problems: FfiDefinitionProblem[];
+
+  constructor(problems: FfiDefinitionProblem[]) {
+    super(
+      `Found ${problems.length} problem(s) in FFI definitions:\n` +
+        problems.map((problem) => `- ${problem.path}: ${problem.message}`).join("\n"),
+    );
+    this.name = "FfiDefinitionError";
+    this.problems = problems;
+  }
+}
+
+export interface FfiDeadlockDiagnostics {
+  /**
+   * - `"async-result"`: the callback returned a promise while called
+   *   synchronously on the event-loop thread, which cannot wait for it.
+   * - `"dispatcher-closed"`: no event loop is consuming calls anymore.
+   * - `"timeout"`: a foreign thread waited longer than its timeout for the
+   *   event loop to pick up or answer its call.
+   */
+  reason: "async-result" | "dispatcher-closed" | "timeout";
+  thread: "event-loop" | "foreign";
+  /**
+   * Calls queued or being answered at the time of the error.
+   */
+  pending: number;
+  capacity: number;
+  /**
+   * Whether the event loop was still consuming calls.
+   */
+  consumerRunning: boolean;
+}
+
+const DEADLOCK_MESSAGES: Record<FfiDeadlockDiagnostics["reason"], string> = {
+  "async-result": "Thread-safe callback returned a promise on the event-loop thread, " +
+    "which cannot block to await it",
+  "dispatcher-closed": "Thread-safe callback was called after its dispatcher was closed",
+  "timeout": "Timed out waiting for the event loop to answer a thread-safe callback",
+};
+
+/**
+ * Thrown instead of deadlocking when a thread-safe callback cannot be
+ * answered, see `thread-safe-callbacks/caveats.ts`.
+ */
+export class FfiDeadlockError extends Error {
+  readonly diagnostics: FfiDeadlockDiagnostics;
+
+  constructor(diagnostics: FfiDeadlockDiagnostics) {
+    const { thread, pending, capacity, consumerRunning } = diagnostics;
+    super(
+      `${DEADLOCK_MESSAGES[diagnostics.reason]} (thread: ${thread}, pending calls: ` +
+        `${pending}/${capacity}, event loop ${consumerRunning ? "running" : "stopped"})`,
+    );
+    this.name = "FfiDeadlockError";
+    this.diagnostics = diagnostics;
+  }
+}
+
+/**
+ * Thrown when a symbol declared `reentrancy: "forbidden"` is called from a
+ * callback while another call into the same library is still running.
+ */
+export class FfiReentrancyError extends Error {
+  readonly symbol: string;
+  /**
+   * Synchronous calls into the library that were running, outermost first.
+   */
+  readonly callStack: readonly string[];
+
+  constructor(symbol: string, callStack: readonly string[]) {
+    super(
+      `Symbol "${symbol}" cannot be called while a call into its library is running ` +
+        `(call stack: ${callStack.join(" > ")})`,
+    );
+    this.name = "FfiReentrancyError";
+    this.symbol = symbol;
+    this.callStack = callStack;
+  }
+}
+
+/**
+ * - `"freed"`: its `ForeignOwnedPointer` was freed.
+ * - `"consumed"`: it was passed to a parameter declared `{ pointer: "consumes" }`.
+ * - `"invalidated"`: it was passed to a parameter declared
+ *   `{ pointer: "invalidates" }`.
+ */
+export type RevocationReason = "freed" | "consumed" | "invalidated";
+
+const USE_AFTER_FREE_MESSAGES: Record<RevocationReason, string> = {
+  "freed": "its ForeignOwnedPointer was freed",
+  "consumed": "a foreign call consumed it",
+  "invalidated": "a foreign call invalidated it",
+};
+
+/**
+ * Thrown instead of reading freed memory when a `ForeignPointer`,
+ * `ForeignPointerView` or `ForeignOwnedPointer` is used after its memory was
+ * freed, consumed or invalidated.
+ */
+export class FfiUseAfterFreeError extends Error {
+  readonly reason: RevocationReason;
+
+  constructor(reason: RevocationReason) {
+    super(`Foreign memory was used after ${USE_AFTER_FREE_MESSAGES[reason]}`);
+    this.name = "FfiUseAfterFreeError";
+    this.reason = reason;
+  }
+}
+
+/**
+ * Dispatched on `globalThis` for errors of `"rethrow"` policy callbacks that
+ * cannot be rethrown from a foreign call, like `unhandledrejection` is for
+ * promises. Unless the event is cancelled, the error is reported as uncaught.
+ */
+export class CallbackErrorEvent extends Event {
+  readonly error: unknown;
+
+  constructor(error: unknown) {
+    super("callbackerror", { cancelable: true });
+    this.error = error;
+  }
+}
+
+/**
+ * Thrown, or rejected with, when a call to a symbol declaring `errors`
+ * fails according to its error convention.
+ */
+export class ForeignCallError extends Error {
+  readonly symbol: string;
+  readonly code: number | bigint;
+  /**
+   * Name of the code from the convention's `codes`, if any.
+   */
+  readonly codeName: string | undefined;
+
+  constructor(symbol: string, code: number | bigint, codeName?: string) {
+    super(`Call to "${symbol}" failed with code ${code}${codeName ? ` (${codeName})` : ""}`);
+    this.name = "ForeignCallError";
+    this.symbol = symbol;
+    this.code = code;
+    this.codeName = codeName;
+  }
+}
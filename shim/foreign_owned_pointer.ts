@@ -0,0 +1,148 @@
+import type { RevocationReason } from "./errors.ts";
+import { recordCreation, unwatch, watch } from "./leaks.ts";
+import type { NativeBackend } from "./native.ts";
+import { createForeignPointer, type ForeignPointer, Lifetime } from "./pointer.ts";
+import { ForeignPointerView } from "./view.ts";
+
+/**
+ * Frees an address through the library's deallocator. `finalizing` is true
+ * when called by the garbage collector instead of `free()`.
+ */
+export type ForeignFree = (address: bigint, finalizing: boolean) => void;
+
+let constructing = false;
+
+let createForeignOwnedPointer: (
+  backend: NativeBackend,
+  address: bigint,
+  free: ForeignFree,
+  finalize: boolean,
+) => ForeignOwnedPointer | null;
+let borrowForeignOwnedPointer: (pointer: ForeignOwnedPointer, backend: NativeBackend) => bigint;
+let revokeForeignOwnedPointer: (pointer: ForeignOwnedPointer, reason: RevocationReason) => void;
+
+/**
+ * Frees pointers collected without `free()` if their result asked for it.
+ * Holds only the address and deallocator, never the pointer itself.
+ */
+const finalizer = new FinalizationRegistry<() => void>((free) => free());
+
+/**
+ * Foreign memory owned by JS, returned by symbols whose result declares its
+ * deallocator as `{ pointer: true, free: "lib_free" }`. Rust wise this is
+ * `Box<T>` where `ForeignPointer` is `&T`.
+ *
+ * The memory is freed exactly once: by `free()`, by leaving a `using` block,
+ * or, for results declared with `finalize: true`, once the pointer is
+ * garbage collected without either. After that the pointer is unusable.
+ *
+ * It can be passed to synchronous calls in place of a `ForeignPointer`, and
+ * lends out `ForeignPointer`s and `ForeignPointerView`s for reading it. These
+ * are borrows: freeing the owner revokes them. Nonblocking calls do not
+ * accept it, as it could be freed while they run.
+ *
+ * Passing it to a parameter declared `{ pointer: "consumes" }` hands the
+ * memory over to the call instead: it is not freed, but unusable just the
+ * same. Pass the owner itself for this: borrows of it are rejected with a
+ * `TypeError`, as the owner would still free the memory afterwards.
+ */
+export class ForeignOwnedPointer {
+  #backend!: NativeBackend;
+  #address!: bigint;
+  #free!: ForeignFree;
+  #lifetime = new Lifetime(null, true);
+
+  /**
+   * Throws, manual construction not allowed
+   */
+  constructor() {
+    if (!constructing) {
+      throw new TypeError("Illegal constructor");
+    }
+  }
+
+  /**
+   * Whether the memory was freed, or consumed or invalidated by a call.
+   */
+  get freed(): boolean {
+    return this.#lifetime.revoked !== null;
+  }
+
+  /**
+   * A `ForeignPointer` to the owned memory, valid until it is freed.
+   */
+  borrow(): ForeignPointer {
+    this.#lifetime.assertLive();
+    return createForeignPointer(this.#backend, this.#address, this.#lifetime)!;
+  }
+
+  /**
+   * A `ForeignPointerView` of the owned memory, valid until it is freed.
+   */
+  view(): ForeignPointerView {
+    return new ForeignPointerView(this.borrow());
+  }
+
+  /**
+   * Frees the memory through the library's deallocator. Throws an
+   * `FfiUseAfterFreeError` if it was already freed. If the deallocator
+   * throws, the memory stays owned and its borrows stay valid.
+   */
+  free(): void {
+    this.#lifetime.assertLive();
+    this.#free(this.#address, false);
+    this.#revoke("freed");
+  }
+
+  /**
+   * Frees the memory unless it already was, for use with `using`.
+   */
+  [Symbol.dispose](): void {
+    if (!this.freed) {
+      this.free();
+    }
+  }
+
+  #revoke(reason: RevocationReason): void {
+    this.#lifetime.revoke(reason);
+    unwatch(this);
+    finalizer.unregister(this);
+  }
+
+  static {
+    createForeignOwnedPointer = (backend, address, free, finalize) => {
+      if (address === 0n) {
+        return null;
+      }
+      constructing = true;
+      let pointer: ForeignOwnedPointer;
+      try {
+        pointer = new ForeignOwnedPointer();
+      } finally {
+        constructing = false;
+      }
+      pointer.#backend = backend;
+      pointer.#address = address;
+      pointer.#free = free;
+      recordCreation(pointer);
+      // Collecting pointers declared `finalize: true` frees them, which is
+      // not a leak.
+      if (finalize) {
+        finalizer.register(pointer, () => free(address, true), pointer);
+      } else {
+        watch(pointer, "foreign-owned-pointer");
+      }
+      return pointer;
+    };
+    borrowForeignOwnedPointer = (pointer, backend) => {
+      pointer.#lifetime.assertLive();
+      if (pointer.#backend !== backend) {
+        throw new TypeError("ForeignOwnedPointer belongs to a different FFI backend");
+      }
+      return pointer.#address;
+    };
+    revokeForeignOwnedPointer = (pointer, reason) => pointer.#revoke(reason);
+  }
+}
+
+export { borrowForeignOwnedPointer, createForeignOwnedPointer, revokeForeignOwnedPointer };
@@ -0,0 +1,129 @@
+import { assert, assertEquals, assertFalse, assertThrows } from "jsr:@std/assert@1";
+import { MockHeap, mockDlopen } from "./mock.ts";
+import { FfiUseAfterFreeError, ForeignOwnedPointer, ForeignPointerView } from "./mod.ts";
+
+function handleLibrary() {
+  const freed: bigint[] = [];
+  const heap = new MockHeap();
+  const lib = mockDlopen({
+    create: { parameters: ["u32"], result: { pointer: true, free: "destroy" } },
+    destroy: { parameters: ["pointer"], result: "void" },
+    consume: { parameters: [{ pointer: "consumes" }], result: "void" },
+    move: { parameters: [{ pointer: "invalidates" }], result: "pointer" },
+    read: { parameters: ["pointer"], result: "u32" },
+  }, {
+    create(value: number) {
+      const address = heap.alloc(16);
+      heap.view(address, 16).setUint32(0, value, true);
+      heap.view(address, 16).setBigUint64(8, address, true);
+      return address;
+    },
+    destroy(address: bigint) {
+      freed.push(address);
+      heap.free(address);
+    },
+    consume(address: bigint) {
+      heap.free(address);
+    },
+    move: (address: bigint) => address,
+    read: (address: bigint) => heap.read(address, 0, "u32"),
+  }, { heap });
+  return { lib, freed };
+}
+
+Deno.test("owning results are freed exactly once through their deallocator", () => {
+  const { lib, freed } = handleLibrary();
+  const owner = lib.symbols.create(5)!;
+  assert(owner instanceof ForeignOwnedPointer);
+  assertEquals(lib.symbols.read(owner), 5);
+  assertEquals(owner.view().getUint32(), 5);
+  owner.free();
+  assert(owner.freed);
+  assertEquals(freed.length, 1);
+  assertThrows(() => owner.free(), FfiUseAfterFreeError, "freed");
+  assertThrows(() => lib.symbols.read(owner), FfiUseAfterFreeError);
+  owner[Symbol.dispose]();
+  assertEquals(freed.length, 1);
+});
+
+Deno.test("owners stay live when their deallocator throws", () => {
+  const heap = new MockHeap();
+  let failing = true;
+  const lib = mockDlopen({
+    create: { parameters: [], result: { pointer: true, free: "destroy" } },
+    destroy: { parameters: ["pointer"], result: "void" },
+  }, {
+    create: () => heap.alloc(8),
+    destroy(address: bigint) {
+      if (failing) {
+        throw new Error("busy");
+      }
+      heap.free(address);
+    },
+  }, { heap });
+  const owner = lib.symbols.create()!;
+  const borrowed = owner.borrow();
+  assertThrows(() => owner.free(), Error, "busy");
+  assertFalse(owner.freed);
+  assertEquals(new ForeignPointerView(borrowed).getUint32(), 0);
+  failing = false;
+  owner.free();
+  assert(owner.freed);
+  assertThrows(() => new ForeignPointerView(borrowed), FfiUseAfterFreeError);
+});
+
+Deno.test("freeing the owner revokes its borrows and pointers read through them", () => {
+  const { lib } = handleLibrary();
+  const owner = lib.symbols.create(1)!;
+  const borrowed = owner.borrow();
+  const view = owner.view();
+  const inner = view.getForeignPointer(8)!;
+  owner.free();
+  assertThrows(() => lib.symbols.read(borrowed), FfiUseAfterFreeError);
+  assertThrows(() => view.getUint32(), FfiUseAfterFreeError);
+  assertThrows(() => new ForeignPointerView(inner), FfiUseAfterFreeError);
+});
+
+Deno.test("consuming parameters take ownership instead of freeing", () => {
+  const { lib, freed } = handleLibrary();
+  const owner = lib.symbols.create(1)!;
+  lib.symbols.consume(owner);
+  assert(owner.freed);
+  assertEquals(freed.length, 0);
+  owner[Symbol.dispose]();
+  assertEquals(freed.length, 0);
+  const error = assertThrows(() => owner.borrow(), FfiUseAfterFreeError);
+  assertEquals(error.reason, "consumed");
+});
+
+Deno.test("revoking parameters reject borrows of an owner", () => {
+  const { lib, freed } = handleLibrary();
+  const owner = lib.symbols.create(1)!;
+  assertThrows(() => lib.symbols.consume(owner.borrow()), TypeError, "not a borrow of it");
+  assertThrows(() => lib.symbols.move(owner.borrow()), TypeError, "not a borrow of it");
+  assertFalse(owner.freed);
+  owner.free();
+  assertEquals(freed.length, 1);
+});
+
+Deno.test("invalidating parameters revoke the pointer and its views", () => {
+  const { lib } = handleLibrary();
+  using owner = lib.symbols.create(3)!;
+  const pointer = new ForeignPointerView(owner.borrow()).getForeignPointer(8)!;
+  const view = new ForeignPointerView(pointer);
+  const moved = lib.symbols.move(pointer)!;
+  assertThrows(() => view.getUint32(), FfiUseAfterFreeError, "invalidated");
+  assertThrows(() => lib.symbols.read(pointer), FfiUseAfterFreeError);
+  assertEquals(lib.symbols.read(moved), 3);
+  assertFalse(owner.freed);
+});
+
+Deno.test("revoking parameters reject memory owned by JS", () => {
+  const { lib } = handleLibrary();
+  assertThrows(
+    // @ts-expect-error: revoking parameters take no TypedArrays.
+    () => lib.symbols.consume(new Uint8Array(8)),
+    TypeError,
+    'declared "consumes"',
+  );
+});
@@ -0,0 +1,155 @@
+/**
+ * Opt-in leak tracking for FFI handles. `storable-callbacks/created.ts` notes
+ * of a forgotten callback that "at least it is very clear that something is
+ * leaking"; this makes it actually get reported.
+ *
+ * Three kinds of leaks are found:
+ *
+ * - `StoredCallback`s that became garbage-collectable without `delete()`
+ *   having been called. The native side may still hold the C callback.
+ * - `OwnedPointer`s collected while their buffer was lent to a nonblocking
+ *   call, ie. calls that never settled.
+ * - `ForeignOwnedPointer`s that became garbage-collectable without `free()`
+ *   having been called, unless their result was declared `finalize: true`.
+ *   The foreign memory is lost.
+ *
+ * Tracking captures the creation stack trace of every handle and so is not
+ * meant to be left on in production.
+ */
+
+import { FfiLeakError } from "./errors.ts";
+
+export type FfiLeakKind = "stored-callback" | "owned-pointer" | "foreign-owned-pointer";
+
+export interface FfiLeak {
+  kind: FfiLeakKind;
+  message: string;
+  /**
+   * Stack trace of where the leaked handle was created, if it was created
+   * while tracking was enabled.
+   */
+  stack?: string;
+}
+
+export interface LeakTrackingOptions {
+  /**
+   * Called for every leak found by the garbage collector. Defaults to
+   * logging a warning.
+   */
+  reporter?: (leak: FfiLeak) => void;
+}
+
+interface Watched {
+  kind: FfiLeakKind;
+  stack?: string;
+}
+
+const COLLECTED_MESSAGES: Record<FfiLeakKind, string> = {
+  "stored-callback": "StoredCallback was garbage collected without being deleted",
+  "owned-pointer":
+    "OwnedPointer was garbage collected while its buffer was lent to a nonblocking call",
+  "foreign-owned-pointer": "ForeignOwnedPointer was garbage collected without being freed",
+};
+
+const LIVE_MESSAGES: Record<FfiLeakKind, string> = {
+  "stored-callback": "StoredCallback was never deleted",
+  "owned-pointer": "OwnedPointer is still lent to a nonblocking call",
+  "foreign-owned-pointer": "ForeignOwnedPointer was never freed",
+};
+
+function defaultReporter(leak: FfiLeak): void {
+  console.warn(`${leak.message}${leak.stack ? `\n${leak.stack}` : ""}`);
+}
+
+let reporter: ((leak: FfiLeak) => void) | null = null;
+const creationStacks = new WeakMap<object, string | undefined>();
+const watched = new Map<WeakRef<object>, Watched>();
+const watchedRefs = new WeakMap<object, WeakRef<object>>();
+const collected: FfiLeak[] = [];
+const registry = new FinalizationRegistry<WeakRef<object>>((ref) => {
+  const entry = watched.get(ref);
+  watched.delete(ref);
+  if (!entry || !reporter) {
+    return;
+  }
+  const leak = { kind: entry.kind, message: COLLECTED_MESSAGES[entry.kind], stack: entry.stack };
+  collected.push(leak);
+  reporter(leak);
+});
+
+export function enableLeakTracking(options: LeakTrackingOptions = {}): void {
+  reporter = options.reporter ?? defaultReporter;
+}
+
+export function disableLeakTracking(): void {
+  reporter = null;
+  watched.clear();
+  collected.length = 0;
+}
+
+/**
+ * Records the creation stack trace of an FFI handle.
+ */
+export function recordCreation(target: object): void {
+  if (reporter) {
+    creationStacks.set(target, new Error().stack?.split("\n").slice(2).join("\n"));
+  }
+}
+
+/**
+ * Starts watching a handle: from here on it leaks if collected before `unwatch`.
+ */
+export function watch(target: object, kind: FfiLeakKind): void {
+  if (!reporter) {
+    return;
+  }
+  const ref = new WeakRef(target);
+  watched.set(ref, { kind, stack: creationStacks.get(target) });
+  watchedRefs.set(target, ref);
+  registry.register(target, ref, ref);
+}
+
+export function unwatch(target: object): void {
+  const ref = watchedRefs.get(target);
+  if (ref) {
+    watchedRefs.delete(target);
+    watched.delete(ref);
+    registry.unregister(ref);
+  }
+}
+
+/**
+ * Test teardown helper. Collects garbage if the runtime exposes `gc()`
+ * (eg. `--v8-flags=--expose-gc`), gives finalizers a chance to run and
+ * throws an `FfiLeakError` listing every leak found so far. Unless
+ * `includeLive` is false, callbacks that are still alive but not deleted,
+ * pointers still lent to unsettled calls and foreign memory not yet freed
+ * count as leaks as well.
+ *
+ * Reported leaks are cleared afterwards, so that one test's leaks do not
+ * fail the next one.
+ */
+export async function assertNoFfiLeaks(
+  { includeLive = true }: { includeLive?: boolean } = {},
+): Promise<void> {
+  if (!reporter) {
+    throw new Error("Leak tracking is not enabled, see enableLeakTracking()");
+  }
+  // WeakRefs keep their targets alive until the end of the current job, so
+  // collect on a later tick and give the finalizers another one to run.
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+  await tick();
+  (globalThis as { gc?: () => void }).gc?.();
+  await tick();
+  const leaks = collected.splice(0);
+  if (includeLive) {
+    for (const [ref, { kind, stack }] of watched) {
+      if (ref.deref()) {
+        leaks.push({ kind, message: LIVE_MESSAGES[kind], stack });
+      }
+    }
+  }
+  if (leaks.length > 0) {
+    throw new FfiLeakError(leaks);
+  }
+}
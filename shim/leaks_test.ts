@@ -0,0 +1,53 @@
+import { assertEquals, assertRejects } from "jsr:@std/assert@1";
+import { mockDlopen } from "./mock.ts";
+import {
+  assertNoFfiLeaks,
+  disableLeakTracking,
+  enableLeakTracking,
+  FfiLeakError,
+  StoredCallback,
+} from "./mod.ts";
+import type { FfiLeak } from "./mod.ts";
+
+const Callback = { parameters: [], result: "void" } as const;
+
+function registryLibrary() {
+  return mockDlopen({
+    register: { parameters: [{ function: Callback }], result: "void" },
+  }, {
+    register() {},
+  });
+}
+
+Deno.test("callbacks that were never deleted are reported", async () => {
+  enableLeakTracking({ reporter() {} });
+  try {
+    const lib = registryLibrary();
+    const callback = new StoredCallback(Callback, () => {});
+    lib.symbols.register(callback);
+    const error = await assertRejects(() => assertNoFfiLeaks(), FfiLeakError);
+    assertEquals(error.leaks.map((leak) => leak.kind), ["stored-callback"]);
+    callback.delete();
+    await assertNoFfiLeaks();
+  } finally {
+    disableLeakTracking();
+  }
+});
+
+Deno.test({
+  name: "callbacks collected while native code holds them are reported",
+  // Needs `--v8-flags=--expose-gc`.
+  ignore: !("gc" in globalThis),
+  async fn() {
+    const leaks: FfiLeak[] = [];
+    enableLeakTracking({ reporter: (leak) => leaks.push(leak) });
+    try {
+      const lib = registryLibrary();
+      lib.symbols.register(new StoredCallback(Callback, () => {}));
+      await assertNoFfiLeaks({ includeLive: false }).catch(() => {});
+      assertEquals(leaks.map((leak) => leak.kind), ["stored-callback"]);
+    } finally {
+      disableLeakTracking();
+    }
+  },
+});
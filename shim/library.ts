@@ -0,0 +1,205 @@
+import { denoBackend, denoDlopen } from "./deno_backend.ts";
+import { FfiReentrancyError, ForeignCallError } from "./errors.ts";
+import type { ForeignFree } from "./foreign_owned_pointer.ts";
+import { createCaller } from "./marshal.ts";
+import type { NativeBackend, NativeLibrary, NativeValue } from "./native.ts";
+import { CallScheduler, locksFor } from "./scheduler.ts";
+import type { ForeignSymbols } from "./signatures.ts";
+import type { ErrorConvention, LibraryDefinition, LibraryOptions } from "./types.ts";
+import { isOwningPointerType } from "./types.ts";
+import { validateDefinitions } from "./validate.ts";
+
+/**
+ * A library opened through the shim. Symbols follow the proposal's rules
+ * instead of the unstable API's ones.
+ */
+export interface ForeignLibrary<S extends LibraryDefinition> {
+  symbols: ForeignSymbols<S>;
+  close(): void;
+  /**
+   * Synchronous calls into the library that are currently running, outermost
+   * first. More than one entry means native code called back into JS, which
+   * called back into the library.
+   */
+  readonly callStack: readonly string[];
+  /**
+   * Closes the library unless it already was, for use with `using`.
+   */
+  [Symbol.dispose](): void;
+}
+
+const backends = new WeakMap<object, NativeBackend>();
+
+/**
+ * The backend a library was opened with, for native data that is built in
+ * JS and then handed to the library, like vtables of stored callbacks.
+ */
+export function libraryBackend(library: ForeignLibrary<LibraryDefinition>): NativeBackend {
+  const backend = backends.get(library);
+  if (!backend) {
+    throw new TypeError("Expected a library opened through the shim");
+  }
+  return backend;
+}
+
+function sameCode(a: number | bigint, b: number | bigint): boolean {
+  return BigInt(a) === BigInt(b);
+}
+
+/**
+ * Checks raw results of symbol `key` against its error convention. Error
+ * codes are read through `lastError` directly, like owning pointers are
+ * freed, so that nothing else runs in between.
+ */
+function checkResults(
+  key: string,
+  errors: ErrorConvention,
+  native: NativeLibrary,
+): (value: NativeValue) => void {
+  const codes: Record<string, string | undefined> = { ...errors.codes };
+  return (value) => {
+    let code = value as number | bigint;
+    if ("negative" in errors) {
+      if (code >= 0) {
+        return;
+      }
+      code = -code;
+    } else if ("ok" in errors ? sameCode(code, errors.ok) : !sameCode(code, errors.failure)) {
+      return;
+    }
+    if ("lastError" in errors && errors.lastError !== undefined) {
+      code = native.symbols[errors.lastError]() as number | bigint;
+    }
+    throw new ForeignCallError(key, code, codes[String(code)]);
+  };
+}
+
+/**
+ * Wraps an opened native library so that its symbols follow the proposal's
+ * rules. Backends other than the Deno one are mostly useful for testing, see
+ * `dlopen` for the regular entry point.
+ */
+export function wrapLibrary<const S extends LibraryDefinition>(
+  backend: NativeBackend,
+  native: NativeLibrary,
+  definition: S,
+  options: LibraryOptions = {},
+): ForeignLibrary<S> {
+  let closed = false;
+  const scheduler = new CallScheduler(options.maxConcurrency);
+  const callStack: string[] = [];
+  const deferred: (() => void)[] = [];
+  const symbols: Record<string, (...args: unknown[]) => unknown> = {};
+  // Owning pointers are freed by calling their deallocator directly, outside
+  // of the library's scheduling and re-entrancy policies. Pointers collected
+  // after the library was closed are left alone.
+  const freeThrough = (symbol: string): ForeignFree => (address, finalizing) => {
+    if (closed) {
+      if (finalizing) {
+        return;
+      }
+      throw new Error("Cannot free a ForeignOwnedPointer after its library was closed");
+    }
+    native.symbols[symbol](address);
+  };
+  for (const key of Object.keys(definition) as (keyof S & string)[]) {
+    const { result, errors } = definition[key];
+    const gate = scheduler.gate(key, locksFor(key, definition[key], options));
+    const free = isOwningPointerType(result) ? freeThrough(result.free) : undefined;
+    const check = errors ? checkResults(key, errors, native) : undefined;
+    const caller = createCaller(backend, native.symbols[key], definition[key], gate, free, check);
+    const reentrancy = definition[key].reentrancy ?? options.reentrancy ?? "allowed";
+    // Nonblocking calls return before native code runs, so they never stay
+    // on the stack.
+    const call = definition[key].nonblocking ? caller : (...args: unknown[]) => {
+      callStack.push(key);
+      try {
+        return caller(...args);
+      } finally {
+        callStack.pop();
+        if (callStack.length === 0) {
+          // Deferred calls may defer further calls, which also run here.
+          while (deferred.length > 0) {
+            deferred.shift()!();
+          }
+        }
+      }
+    };
+    symbols[key] = (...args: unknown[]) => {
+      if (closed) {
+        throw new Error(`Cannot call symbol "${key}" of a closed library`);
+      }
+      if (callStack.length > 0 && reentrancy === "forbidden") {
+        throw new FfiReentrancyError(key, [...callStack]);
+      }
+      if (callStack.length > 0 && reentrancy === "deferred") {
+        return new Promise((resolve, reject) => {
+          deferred.push(() => {
+            try {
+              resolve(symbols[key](...args));
+            } catch (error) {
+              reject(error);
+            }
+          });
+        });
+      }
+      return call(...args);
+    };
+  }
+  const library: ForeignLibrary<S> = {
+    symbols: symbols as ForeignSymbols<S>,
+    get callStack() {
+      return [...callStack];
+    },
+    close() {
+      if (closed) {
+        throw new Error("Library has already been closed");
+      }
+      closed = true;
+      native.close();
+    },
+    [Symbol.dispose]() {
+      if (!closed) {
+        this.close();
+      }
+    },
+  };
+  backends.set(library, backend);
+  return library;
+}
+
+/**
+ * Drop-in replacement for `Deno.dlopen` that returns a library whose symbols
+ * enforce the proposal's rules:
+ *
+ * - Nonblocking symbols only accept `OwnedPointer` for pointer parameters. The
+ *   buffer is detached for the duration of the call and reattached after it.
+ * - Pointer results come back as opaque `ForeignPointer` objects, or `null`.
+ *   Results declared `{ pointer: true, free }` come back as
+ *   `ForeignOwnedPointer` objects, freed through the named symbol.
+ * - `{ function }` results come back as `ForeignFunction` objects, or `null`.
+ * - `{ function }` parameters take `StoredCallback` objects.
+ * - Pointers passed to `{ pointer: "consumes" }` or `{ pointer: "invalidates" }`
+ *   parameters are revoked, using them afterwards throws an
+ *   `FfiUseAfterFreeError`.
+ * - `{ out }` parameters are not passed: calls allocate them and return
+ *   `{ result, outs }` with the values native code wrote to them.
+ * - Symbols declaring an `errors` convention throw, or reject with, a
+ *   `ForeignCallError` when they fail, instead of returning an error code.
+ *
+ * The definition is checked up front and mistakes are thrown as one
+ * `FfiDefinitionError`. The symbols' types are derived from the
+ * definition, see `ForeignSymbols`.
+ *
+ * Nonblocking calls are scheduled according to the library's and each
+ * symbol's declared `threadSafety` policy, and calls made from within
+ * callbacks during a synchronous call according to its `reentrancy` policy.
+ */
+export function dlopen<const S extends LibraryDefinition>(
+  path: string | URL,
+  definition: S,
+  options: LibraryOptions = {},
+): ForeignLibrary<S> {
+  validateDefinitions(definition, options);
+  return wrapLibrary(denoBackend, denoDlopen(path, definition), definition, options);
+}
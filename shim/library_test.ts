@@ -0,0 +1,172 @@
+import {
+  assertEquals,
+  assertInstanceOf,
+  assertRejects,
+  assertStrictEquals,
+  assertThrows,
+} from "jsr:@std/assert@1";
+import { mockDlopen } from "./mock.ts";
+import {
+  FfiReentrancyError,
+  ForeignCallError,
+  ForeignPointer,
+  StoredCallback,
+  StructLayout,
+} from "./mod.ts";
+import type { LibraryDefinition, Reentrancy } from "./types.ts";
+
+const Callback = { parameters: [], result: "void" } as const;
+
+/**
+ * A library whose `run` calls the given callback, which may call `inner`.
+ */
+function reentrantLibrary(reentrancy: Reentrancy) {
+  const log: string[] = [];
+  const lib = mockDlopen({
+    run: { parameters: [{ function: Callback }], result: "void" },
+    inner: { parameters: ["u32"], result: "u32", reentrancy },
+  }, {
+    run(callback: bigint) {
+      log.push("run");
+      lib.heap.call(callback);
+      log.push("ran");
+    },
+    inner(value: number) {
+      log.push(`inner ${value}`);
+      return value + 1;
+    },
+  });
+  return { lib, log };
+}
+
+Deno.test("re-entrant calls go through by default", () => {
+  const { lib, log } = reentrantLibrary("allowed");
+  let stack: readonly string[] = [];
+  using callback = new StoredCallback(Callback, () => {
+    stack = lib.callStack;
+    lib.symbols.inner(1);
+  });
+  lib.symbols.run(callback);
+  assertEquals(stack, ["run"]);
+  assertEquals(log, ["run", "inner 1", "ran"]);
+  assertEquals(lib.callStack, []);
+});
+
+Deno.test("forbidden re-entrant calls throw an FfiReentrancyError", () => {
+  const { lib } = reentrantLibrary("forbidden");
+  let error: unknown;
+  using callback = new StoredCallback(Callback, () => {
+    try {
+      lib.symbols.inner(1);
+    } catch (thrown) {
+      error = thrown;
+    }
+  });
+  lib.symbols.run(callback);
+  assertInstanceOf(error, FfiReentrancyError);
+  assertEquals(error.symbol, "inner");
+  assertEquals(error.callStack, ["run"]);
+  assertEquals(lib.symbols.inner(1), 2);
+});
+
+Deno.test("deferred re-entrant calls run once the outermost call returned", async () => {
+  const { lib, log } = reentrantLibrary("deferred");
+  let deferred: unknown;
+  using callback = new StoredCallback(Callback, () => {
+    deferred = lib.symbols.inner(1);
+  });
+  lib.symbols.run(callback);
+  assertEquals(log, ["run", "ran", "inner 1"]);
+  assertEquals(await deferred, 2);
+});
+
+Deno.test("error conventions throw ForeignCallErrors for failed calls", async () => {
+  let errno = 0;
+  const lib = mockDlopen({
+    open: {
+      parameters: ["i32"],
+      result: "i32",
+      errors: { failure: -1, lastError: "errno", codes: { 2: "ENOENT" } },
+    },
+    write: { parameters: ["i32"], result: "isize", errors: { negative: "errno" } },
+    status: { parameters: ["i32"], result: "u32", errors: { ok: 0 }, nonblocking: true },
+    errno: { parameters: [], result: "i32" },
+  }, {
+    open(fd: number) {
+      errno = 2;
+      return fd;
+    },
+    write: (fd: number) => BigInt(fd),
+    status: (code: number) => code,
+    errno: () => errno,
+  });
+  assertEquals(lib.symbols.open(3), 3);
+  const error = assertThrows(() => lib.symbols.open(-1), ForeignCallError);
+  assertEquals(error.symbol, "open");
+  assertEquals(error.code, 2);
+  assertEquals(error.codeName, "ENOENT");
+  assertEquals(lib.symbols.write(4), 4n);
+  assertEquals(assertThrows(() => lib.symbols.write(-9), ForeignCallError).code, 9n);
+  assertEquals(await lib.symbols.status(0), 0);
+  assertEquals((await assertRejects(() => lib.symbols.status(5), ForeignCallError)).code, 5);
+});
+
+Deno.test("out-parameters resolve calls to their results and outs", async () => {
+  const Point = new StructLayout({ x: "i32", y: "i32" });
+  const lib = mockDlopen({
+    divide: { parameters: ["i32", "i32", { out: "i32" }, { out: "i32" }], result: "u8" },
+    origin: { parameters: [{ out: { struct: Point } }], result: "void", nonblocking: true },
+    lookup: { parameters: [{ out: "pointer" }, { out: { bytes: 2 } }], result: "void" },
+  }, {
+    divide(a: number, b: number, quotient: bigint, remainder: bigint) {
+      lib.heap.view(quotient, 4).setInt32(0, Math.trunc(a / b), true);
+      lib.heap.view(remainder, 4).setInt32(0, a % b, true);
+      return 1;
+    },
+    origin(point: bigint) {
+      lib.heap.view(point, 8).setInt32(4, 5, true);
+    },
+    lookup(pointer: bigint, bytes: bigint) {
+      lib.heap.view(pointer, 8).setBigUint64(0, target, true);
+      lib.heap.view(bytes, 2).setUint16(0, 0x0201, true);
+    },
+  });
+  const target = lib.heap.alloc(1);
+  assertEquals(lib.symbols.divide(7, 2), { result: 1, outs: [3, 1] });
+  assertEquals(await lib.symbols.origin(), { result: undefined, outs: [{ x: 0, y: 5 }] });
+  const { outs: [pointer, bytes] } = lib.symbols.lookup();
+  assertInstanceOf(pointer, ForeignPointer);
+  assertEquals(bytes, new Uint8Array([1, 2]));
+});
+
+Deno.test("stored callbacks must have the signature of their parameter", () => {
+  const Point = new StructLayout({ x: "i32", y: "i32" });
+  const lib = mockDlopen({
+    take: {
+      parameters: [{ function: { parameters: [{ struct: Point }], result: "u8" } }],
+      result: "void",
+    },
+  }, { take() {} });
+  using same = new StoredCallback(
+    { parameters: [{ struct: Point }], result: "u8", threadSafe: true },
+    () => 0,
+  );
+  lib.symbols.take(same);
+  // Struct layouts are compared by identity, not by their fields.
+  using other = new StoredCallback(
+    { parameters: [{ struct: new StructLayout({ x: "i32", y: "i32" }) }], result: "u8" },
+    () => 0,
+  );
+  assertThrows(() => lib.symbols.take(other), TypeError, "parameters and result");
+});
+
+Deno.test("closed libraries refuse calls", () => {
+  const definition = { noop: { parameters: [], result: "void" } } satisfies LibraryDefinition;
+  const lib = mockDlopen(definition, { noop() {} });
+  {
+    using scoped = lib;
+    assertStrictEquals(scoped.symbols.noop(), undefined);
+  }
+  assertThrows(() => lib.symbols.noop(), Error, "closed library");
+  assertThrows(() => lib.close(), Error, "already been closed");
+});
@@ -0,0 +1,599 @@
+/**
+ * Conversion between proposal-level values (`ForeignPointer`, `OwnedPointer`,
+ * `StoredCallback`, ...) and the raw values a `NativeBackend` works with.
+ * This is where the proposal's rules are enforced.
+ */
+
+import { encodeCString, readCString } from "./cstring.ts";
+import { CallbackErrorEvent } from "./errors.ts";
+import type { RevocationReason } from "./errors.ts";
+import type { ForeignFree } from "./foreign_owned_pointer.ts";
+import {
+  borrowForeignOwnedPointer,
+  createForeignOwnedPointer,
+  ForeignOwnedPointer,
+  revokeForeignOwnedPointer,
+} from "./foreign_owned_pointer.ts";
+import type { NativeBackend, NativeFunction, NativeValue } from "./native.ts";
+import type { CallGate } from "./scheduler.ts";
+import type { PointerLoan } from "./owned_pointer.ts";
+import { borrowOwnedPointer, lendOwnedPointer, OwnedPointer } from "./owned_pointer.ts";
+import {
+  createForeignFunction,
+  createForeignPointer,
+  ForeignFunction,
+  ForeignPointer,
+  unwrapForeignPointer,
+} from "./pointer.ts";
+import { awaitReply } from "./reply.ts";
+import { callbackDescription, materializeCallback, StoredCallback } from "./stored_callback.ts";
+import { decodeStruct, decodeValue, encodeStruct, isStructType, sizeOf } from "./struct.ts";
+import type {
+  CallOptions,
+  FunctionDescription,
+  OutParameterType,
+  ParameterType,
+  ResultType,
+  StoredFunctionDescription,
+} from "./types.ts";
+import {
+  cstringEncoding,
+  isCStringType,
+  isFunctionType,
+  isOutParameterType,
+  isOwningPointerType,
+  isRevokingPointerType,
+} from "./types.ts";
+
+/**
+ * Errors of `"rethrow"` policy callbacks, one list per synchronous foreign
+ * call currently on the stack.
+ */
+const recordedErrors: unknown[][] = [];
+
+/**
+ * Runs a synchronous foreign call and rethrows errors that `"rethrow"`
+ * policy callbacks recorded while native code was calling them.
+ */
+function rethrowingCallbackErrors<T>(run: () => T): T {
+  const errors: unknown[] = [];
+  recordedErrors.push(errors);
+  let returned: T;
+  try {
+    returned = run();
+  } finally {
+    recordedErrors.pop();
+  }
+  if (errors.length > 1) {
+    throw new AggregateError(
+      errors,
+      `${errors.length} stored callbacks threw during a foreign call`,
+    );
+  }
+  if (errors.length === 1) {
+    throw errors[0];
+  }
+  return returned;
+}
+
+/**
+ * Reports an error as uncaught unless a `callbackerror` listener cancels it.
+ */
+export function surfaceCallbackError(error: unknown): void {
+  const target = globalThis as Partial<EventTarget>;
+  const event = new CallbackErrorEvent(error);
+  if (typeof target.dispatchEvent !== "function" || target.dispatchEvent(event)) {
+    queueMicrotask(() => {
+      throw error;
+    });
+  }
+}
+
+function foreignAddress(backend: NativeBackend, pointer: ForeignPointer): bigint {
+  const raw = unwrapForeignPointer(pointer);
+  if (raw.backend !== backend) {
+    throw new TypeError("ForeignPointer belongs to a different FFI backend");
+  }
+  return raw.address;
+}
+
+function callbackAddress(backend: NativeBackend, callback: StoredCallback): bigint {
+  return materializeCallback(
+    callback,
+    backend,
+    (description, fn) =>
+      backend.createCallback(description, createTrampoline(backend, description, fn)),
+  );
+}
+
+/**
+ * Whether two types are the same: plain objects and arrays are compared
+ * member by member, everything else, struct layouts included, by identity.
+ */
+function sameType(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((type, index) => sameType(type, b[index]));
+  }
+  if (
+    typeof a !== "object" || a === null || Object.getPrototypeOf(a) !== Object.prototype ||
+    typeof b !== "object" || b === null || Object.getPrototypeOf(b) !== Object.prototype
+  ) {
+    return false;
+  }
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length &&
+    keys.every((key) =>
+      sameType((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+    );
+}
+
+/**
+ * Whether a stored callback has the parameters and result of `type`. Options
+ * of stored callbacks such as `threadSafe` are not part of the signature.
+ */
+export function matchesSignature(type: FunctionDescription, callback: StoredCallback): boolean {
+  const description = callbackDescription(callback);
+  return sameType(type.parameters, description.parameters) &&
+    sameType(type.result, description.result);
+}
+
+/**
+ * Lowers a single argument. Nonblocking calls only accept `OwnedPointer`
+ * for pointer parameters; their buffers are lent out and the loans pushed
+ * into `loans` so that the caller can release them once the call settles.
+ */
+export function lowerArgument(
+  backend: NativeBackend,
+  type: ParameterType,
+  value: unknown,
+  nonblocking: boolean,
+  loans: PointerLoan[],
+): NativeValue {
+  if (isFunctionType(type)) {
+    if (value === null) {
+      return 0n;
+    }
+    if (value instanceof StoredCallback) {
+      if (nonblocking && !value.threadSafe) {
+        // Nonblocking calls run on another thread, which may call it anytime.
+        throw new TypeError("Nonblocking calls only accept thread-safe StoredCallbacks");
+      }
+      if (!matchesSignature(type.function, value)) {
+        throw new TypeError("StoredCallback does not have the parameters and result of its type");
+      }
+      return callbackAddress(backend, value);
+    }
+    throw new TypeError("Expected a StoredCallback or null");
+  }
+  if (isStructType(type)) {
+    // Passed by value: the native side gets its own copy of the bytes, so
+    // this is safe for nonblocking calls as well.
+    return encodeStruct(type.struct, value, backend);
+  }
+  if (isCStringType(type)) {
+    if (value === null) {
+      return 0n;
+    }
+    if (typeof value !== "string") {
+      if (nonblocking && !(value instanceof OwnedPointer)) {
+        throw new TypeError("Nonblocking calls only accept strings or OwnedPointer for C strings");
+      }
+      // Already encoded, passed like any other pointer.
+      return lowerArgument(backend, "pointer", value, nonblocking, loans);
+    }
+    const bytes = encodeCString(value, cstringEncoding(type));
+    if (!nonblocking) {
+      return bytes;
+    }
+    // Owned by the call, and freed along with its other loans.
+    const loan = lendOwnedPointer(new OwnedPointer(bytes), backend);
+    loans.push(loan);
+    return loan.pointer;
+  }
+  if (isOutParameterType(type)) {
+    return lowerArgument(backend, "pointer", value, nonblocking, loans);
+  }
+  if (isRevokingPointerType(type)) {
+    if (
+      value !== null && !(value instanceof ForeignPointer) &&
+      !(value instanceof ForeignOwnedPointer)
+    ) {
+      throw new TypeError(
+        `Pointer parameters declared "${type.pointer}" only accept ForeignPointer, ` +
+          "ForeignOwnedPointer or null",
+      );
+    }
+    if (value instanceof ForeignPointer && unwrapForeignPointer(value).lifetime.borrowed) {
+      throw new TypeError(
+        `Pointer parameters declared "${type.pointer}" take a ForeignOwnedPointer itself, ` +
+          "not a borrow of it",
+      );
+    }
+    return lowerArgument(backend, "pointer", value, nonblocking, loans);
+  }
+  if (type !== "pointer") {
+    return value as NativeValue;
+  }
+  if (nonblocking) {
+    if (!(value instanceof OwnedPointer)) {
+      throw new TypeError("Nonblocking calls only accept OwnedPointer for pointer parameters");
+    }
+    const loan = lendOwnedPointer(value, backend);
+    loans.push(loan);
+    return loan.pointer;
+  }
+  if (value === null) {
+    return 0n;
+  }
+  if (value instanceof OwnedPointer) {
+    return borrowOwnedPointer(value, backend);
+  }
+  if (value instanceof ForeignPointer) {
+    return foreignAddress(backend, value);
+  }
+  if (value instanceof ForeignOwnedPointer) {
+    return borrowForeignOwnedPointer(value, backend);
+  }
+  if (ArrayBuffer.isView(value)) {
+    return value;
+  }
+  throw new TypeError(
+    "Expected a TypedArray, OwnedPointer, ForeignPointer, ForeignOwnedPointer or null",
+  );
+}
+
+/**
+ * Revokes the arguments of a call's revoking pointer parameters, once the
+ * call is made.
+ */
+function revokeArguments(parameters: readonly ParameterType[], args: unknown[]): void {
+  parameters.forEach((type, index) => {
+    const value = args[index];
+    if (!isRevokingPointerType(type) || value === null) {
+      return;
+    }
+    const reason: RevocationReason = type.pointer === "consumes" ? "consumed" : "invalidated";
+    if (value instanceof ForeignOwnedPointer) {
+      revokeForeignOwnedPointer(value, reason);
+    } else {
+      unwrapForeignPointer(value as ForeignPointer).lifetime.revoke(reason);
+    }
+  });
+}
+
+function outSize({ out }: OutParameterType): number {
+  return typeof out === "object" && "bytes" in out ? out.bytes : sizeOf(out);
+}
+
+/**
+ * Inserts the buffers of a call's out-parameters between its arguments.
+ */
+function withOuts(
+  parameters: readonly ParameterType[],
+  args: unknown[],
+  outs: OwnedPointer[],
+): unknown[] {
+  if (outs.length === 0) {
+    return args;
+  }
+  let arg = 0;
+  let out = 0;
+  return parameters.map((type) => isOutParameterType(type) ? outs[out++] : args[arg++]);
+}
+
+/**
+ * Decodes what the library wrote into an out-parameter's buffer.
+ */
+function decodeOut(backend: NativeBackend, type: OutParameterType, pointer: OwnedPointer): unknown {
+  const bytes = new Uint8Array(pointer.transfer());
+  const { out } = type;
+  return typeof out === "object" && "bytes" in out ? bytes : decodeValue(out, bytes, backend);
+}
+
+/**
+ * Lifts a raw result or callback argument into its proposal-level value.
+ * Owning pointer results need the `free` function of the symbol's library.
+ */
+export function liftValue(
+  backend: NativeBackend,
+  type: ParameterType | ResultType,
+  value: unknown,
+  free?: ForeignFree,
+): unknown {
+  if (isOwningPointerType(type)) {
+    if (!free) {
+      throw new TypeError("Owning pointers are only supported as results of library symbols");
+    }
+    return createForeignOwnedPointer(backend, value as bigint, free, type.finalize ?? false);
+  }
+  if (isFunctionType(type)) {
+    return bindForeignFunction(backend, value as bigint, type.function);
+  }
+  if (isStructType(type)) {
+    // A freshly owned plain object, never a view into memory that a
+    // nonblocking call's worker thread wrote the result into.
+    return decodeStruct(type.struct, value as ArrayBufferView, backend);
+  }
+  if (type === "pointer" || isRevokingPointerType(type)) {
+    return createForeignPointer(backend, value as bigint);
+  }
+  if (isCStringType(type)) {
+    // Copied right away, the string may not outlive the call.
+    return value === 0n
+      ? null
+      : readCString(backend, value as bigint, 0, { encoding: cstringEncoding(type) });
+  }
+  if (type === "void") {
+    return undefined;
+  }
+  return value;
+}
+
+function takeCallOptions(
+  args: unknown[],
+  parameterCount: number,
+  nonblocking: boolean,
+): CallOptions {
+  if (args.length === parameterCount + 1 && nonblocking) {
+    const options = args.pop();
+    if (typeof options === "object" && options !== null) {
+      return options as CallOptions;
+    }
+    throw new TypeError("Expected call options as the last argument");
+  }
+  if (args.length !== parameterCount) {
+    throw new TypeError(
+      `Expected ${parameterCount} arguments, received ${args.length}`,
+    );
+  }
+  return {};
+}
+
+/**
+ * Settles a nonblocking call whose caller may give up on it through an
+ * `AbortSignal`. Lent buffers stay quarantined until the native side returns.
+ */
+function abortable(
+  call: Promise<unknown>,
+  loans: PointerLoan[],
+  { signal, onSettled }: CallOptions,
+): Promise<unknown> {
+  const release = () => loans.forEach((loan) => loan.release());
+  if (!signal) {
+    return call.finally(release);
+  }
+  return new Promise((resolve, reject) => {
+    let aborted = false;
+    const onAbort = () => {
+      aborted = true;
+      reject(signal.reason);
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    const settle = (settled: { result?: unknown; error?: unknown }) => {
+      signal.removeEventListener("abort", onAbort);
+      if (!aborted) {
+        release();
+        return "error" in settled ? reject(settled.error) : resolve(settled.result);
+      }
+      // Nobody is waiting for the result anymore: hand the buffers back if
+      // asked to, otherwise let them be freed.
+      if (!onSettled) {
+        loans.forEach((loan) => loan.discard());
+        return;
+      }
+      release();
+      onSettled({ pointers: loans.map((loan) => loan.owner), ...settled });
+    };
+    call.then(
+      (result) => settle({ result }),
+      (error) => settle({ error }),
+    );
+  });
+}
+
+/**
+ * Creates the JS-side caller for a native function: lowers arguments, lends
+ * out `OwnedPointer` buffers for nonblocking calls and lifts the result.
+ * Nonblocking calls take an optional trailing `CallOptions` argument, and
+ * owning pointer results are freed through `free`. Arguments of revoking
+ * pointer parameters are revoked when the call is made. Out-parameters are
+ * not passed by the caller, calls with any return `{ result, outs }`.
+ * `check` sees the raw result before it is lifted, and throws for failed
+ * calls.
+ */
+export function createCaller(
+  backend: NativeBackend,
+  native: NativeFunction,
+  description: FunctionDescription,
+  gate?: CallGate,
+  free?: ForeignFree,
+  check?: (value: NativeValue) => void,
+): (...args: unknown[]) => unknown {
+  const { parameters, result, nonblocking = false } = description;
+  const outTypes = parameters.filter(isOutParameterType);
+  return (...args) => {
+    const options = takeCallOptions(args, parameters.length - outTypes.length, nonblocking);
+    if (options.signal?.aborted) {
+      return Promise.reject(options.signal.reason);
+    }
+    const outs = outTypes.map((type) => new OwnedPointer(outSize(type)));
+    const values = withOuts(parameters, args, outs);
+    const loans: PointerLoan[] = [];
+    let returned: unknown;
+    try {
+      // Arguments are taken over right away, even if the call itself has to
+      // wait for its turn: ownership passes to the call, not to the queue.
+      const lowered = values.map((value, index) =>
+        lowerArgument(backend, parameters[index], value, nonblocking, loans)
+      );
+      // Revoked pointers are unusable from the moment the call is made,
+      // including from callbacks the call makes.
+      const run = nonblocking ? () => native(...lowered) : () =>
+        rethrowingCallbackErrors(() => {
+          revokeArguments(parameters, values);
+          return native(...lowered);
+        });
+      if (!gate) {
+        returned = run();
+      } else if (nonblocking) {
+        returned = gate.nonblocking(run, options.signal);
+      } else {
+        returned = gate.blocking(run);
+      }
+    } catch (error) {
+      loans.forEach((loan) => loan.release());
+      throw error;
+    }
+    // Out-parameters are read once their buffers are back from the call.
+    const collect = (value: unknown) =>
+      outs.length === 0 ? value : {
+        result: value,
+        outs: outs.map((pointer, index) => decodeOut(backend, outTypes[index], pointer)),
+      };
+    const lift = (value: unknown) => {
+      check?.(value as NativeValue);
+      return liftValue(backend, result, value, free);
+    };
+    if (!nonblocking) {
+      return collect(lift(returned));
+    }
+    return abortable(
+      Promise.resolve(returned).then(lift),
+      loans,
+      options,
+    ).then(collect);
+  };
+}
+
+/**
+ * Binds a raw function pointer as a `ForeignFunction`, or `null` for a null pointer.
+ */
+export function bindForeignFunction<Fn extends FunctionDescription>(
+  backend: NativeBackend,
+  address: bigint,
+  description: Fn,
+): ForeignFunction<Fn> | null {
+  if (address === 0n) {
+    return null;
+  }
+  const native = backend.bindFunction(address, description);
+  return createForeignFunction<Fn>(createCaller(backend, native, description));
+}
+
+function lowerCallbackResult(
+  backend: NativeBackend,
+  type: ResultType,
+  value: unknown,
+): unknown {
+  if (type === "pointer") {
+    if (value === null || value === undefined) {
+      return 0n;
+    }
+    if (value instanceof ForeignPointer) {
+      return foreignAddress(backend, value);
+    }
+    throw new TypeError("Stored callbacks may only return a ForeignPointer or null");
+  }
+  if (isFunctionType(type)) {
+    return lowerArgument(backend, type, value ?? null, false, []);
+  }
+  if (isStructType(type)) {
+    return encodeStruct(type.struct, value, backend);
+  }
+  if (isCStringType(type)) {
+    throw new TypeError("Stored callbacks cannot return C strings, return a ForeignPointer");
+  }
+  return value;
+}
+
+/**
+ * Wraps a stored callback's JS function so that it receives proposal-level
+ * values and returns raw ones, applying its `onError` policy.
+ */
+export function createTrampoline(
+  backend: NativeBackend,
+  description: StoredFunctionDescription,
+  fn: (...args: unknown[]) => unknown,
+): NativeFunction {
+  const { parameters, result, reply, onError } = description;
+  const trampoline: NativeFunction = (...args) => {
+    const lifted = args.map((arg, index) => liftValue(backend, parameters[index], arg));
+    if (reply) {
+      return awaitReply(
+        reply,
+        (value) => lowerCallbackResult(backend, result, value),
+        (handle) => fn(handle, ...lifted),
+      );
+    }
+    const returned = fn(...lifted);
+    // Thread-safe callbacks served through a dispatcher may answer later: the
+    // foreign thread stays blocked until the promise settles.
+    if (
+      description.nonblocking ||
+      (description.threadSafe && backend.dispatchesCallbacks && returned instanceof Promise)
+    ) {
+      return Promise.resolve(returned).then((value) =>
+        lowerCallbackResult(backend, result, value)
+      );
+    }
+    if (returned instanceof Promise) {
+      // Nobody awaits it, keep it from surfacing as an unhandled rejection.
+      returned.catch(() => {});
+      throw new TypeError("Stored callback returned a promise but has to answer synchronously");
+    }
+    return lowerCallbackResult(backend, result, returned);
+  };
+  if (!onError) {
+    return trampoline;
+  }
+  const handle = (error: unknown, synchronous: boolean): unknown => {
+    if (onError === "abort") {
+      backend.abort(error);
+    }
+    if (onError !== "rethrow") {
+      return lowerCallbackResult(backend, result, onError.fallback);
+    }
+    const errors = synchronous ? recordedErrors.at(-1) : undefined;
+    if (errors) {
+      errors.push(error);
+    } else {
+      surfaceCallbackError(error);
+    }
+    return zeroValue(result);
+  };
+  return (...args) => {
+    let returned: unknown;
+    try {
+      returned = trampoline(...args);
+    } catch (error) {
+      return handle(error, true);
+    }
+    if (returned instanceof Promise) {
+      return returned.catch((error) => handle(error, false));
+    }
+    return returned;
+  };
+}
+
+/**
+ * The raw answer of a `"rethrow"` policy callback that threw.
+ */
+function zeroValue(type: ResultType): unknown {
+  if (type === "void") {
+    return undefined;
+  }
+  if (isStructType(type)) {
+    return new Uint8Array(type.struct.size);
+  }
+  if (
+    isFunctionType(type) || isOwningPointerType(type) || isCStringType(type) ||
+    type === "pointer" || type === "u64" || type === "i64" || type === "usize" ||
+    type === "isize"
+  ) {
+    return 0n;
+  }
+  return 0;
+}
@@ -0,0 +1,260 @@
+import {
+  assert,
+  assertEquals,
+  assertInstanceOf,
+  assertRejects,
+  assertStrictEquals,
+  assertThrows,
+} from "jsr:@std/assert@1";
+import { MockFault, MockHeap, mockDlopen } from "./mock.ts";
+import {
+  FfiDeadlockError,
+  ForeignFunction,
+  ForeignPointer,
+  ForeignPointerView,
+  OwnedPointer,
+  StoredCallback,
+  StructLayout,
+} from "./mod.ts";
+
+const Callback = { parameters: ["u32"], result: "u32" } as const;
+
+function callbackLibrary() {
+  let address = 0n;
+  const lib = mockDlopen({
+    register: { parameters: [{ function: Callback }], result: "void" },
+    register_later: { parameters: [{ function: Callback }], result: "void", nonblocking: true },
+    call: { parameters: ["u32"], result: "u32" },
+  }, {
+    register(callback: bigint) {
+      address = callback;
+    },
+    register_later(callback: bigint) {
+      address = callback;
+    },
+    call(value: number) {
+      return lib.heap.call(address, value) as number;
+    },
+  });
+  return lib;
+}
+
+Deno.test("pointer parameters take TypedArrays only in synchronous calls", async () => {
+  const lib = mockDlopen({
+    sum: { parameters: ["pointer", "usize"], result: "u32" },
+    sum_later: { parameters: ["pointer", "usize"], result: "u32", nonblocking: true },
+  }, {
+    sum(pointer: bigint, length: bigint) {
+      return new Uint8Array(lib.heap.getArrayBuffer(pointer, Number(length), 0))
+        .reduce((sum, value) => sum + value, 0);
+    },
+    sum_later(pointer: bigint, length: bigint) {
+      return new Uint8Array(lib.heap.getArrayBuffer(pointer, Number(length), 0))
+        .reduce((sum, value) => sum + value, 0);
+    },
+  });
+  assertEquals(lib.symbols.sum(new Uint8Array([1, 2, 3]), 3n), 6);
+  assertThrows(
+    // @ts-expect-error: nonblocking calls only take OwnedPointers.
+    () => lib.symbols.sum_later(new Uint8Array([1, 2, 3]), 3n),
+    TypeError,
+    "only accept OwnedPointer",
+  );
+  assertEquals(await lib.symbols.sum_later(new OwnedPointer(new Uint8Array([4, 5])), 2n), 9);
+});
+
+Deno.test("pointer results come back as opaque ForeignPointers", () => {
+  const lib = mockDlopen({
+    get: { parameters: [], result: "pointer" },
+    none: { parameters: [], result: "pointer" },
+    deref: { parameters: ["pointer"], result: "u32" },
+  }, {
+    get: () => address,
+    none: () => 0n,
+    deref: (pointer: bigint) => lib.heap.read(pointer, 0, "u32"),
+  });
+  const address = lib.heap.alloc(4);
+  lib.heap.view(address, 4).setUint32(0, 9, true);
+  const pointer = lib.symbols.get();
+  assertInstanceOf(pointer, ForeignPointer);
+  assertEquals(Object.keys(pointer), []);
+  assertEquals(new ForeignPointerView(pointer).getUint32(), 9);
+  assertEquals(lib.symbols.deref(pointer), 9);
+  assertStrictEquals(lib.symbols.none(), null);
+  assertThrows(() => new ForeignPointer(), TypeError, "Illegal constructor");
+});
+
+Deno.test("pointers of another backend are rejected", () => {
+  const lib = mockDlopen({ get: { parameters: [], result: "pointer" } }, {
+    get: () => lib.heap.alloc(1),
+  });
+  const other = mockDlopen({ use: { parameters: ["pointer"], result: "void" } }, {
+    use() {},
+  });
+  assertThrows(() => other.symbols.use(lib.symbols.get()), TypeError, "different FFI backend");
+});
+
+Deno.test("function results are bound as ForeignFunctions", async () => {
+  const heap = new MockHeap();
+  const add = heap.registerFunction((a, b) => (a as number) + (b as number), {
+    parameters: ["i32", "i32"],
+    result: "i32",
+  });
+  const lib = mockDlopen({
+    get_add: {
+      parameters: [],
+      result: { function: { parameters: ["i32", "i32"], result: "i32" } },
+    },
+    get_add_later: {
+      parameters: [],
+      result: { function: { parameters: ["i32", "i32"], result: "i32", nonblocking: true } },
+    },
+  }, {
+    get_add: () => add,
+    get_add_later: () => add,
+  }, { heap });
+  const fn = lib.symbols.get_add();
+  assertInstanceOf(fn, ForeignFunction);
+  assertEquals(fn.call(2, 3), 5);
+  assertEquals(await lib.symbols.get_add_later()!.call(4, 5), 9);
+});
+
+Deno.test("stored callbacks receive and return proposal-level values", () => {
+  const lib = callbackLibrary();
+  using callback = new StoredCallback(Callback, (value) => value + 1);
+  lib.symbols.register(callback);
+  assertEquals(lib.symbols.call(41), 42);
+  assertThrows(
+    // @ts-expect-error: function parameters only take StoredCallbacks.
+    () => lib.symbols.register((value: number) => value),
+    TypeError,
+    "Expected a StoredCallback",
+  );
+});
+
+Deno.test("nonblocking calls only take thread-safe callbacks", async () => {
+  const lib = callbackLibrary();
+  using callback = new StoredCallback(Callback, (value) => value);
+  assertThrows(
+    // @ts-expect-error: the callback is not thread-safe.
+    () => lib.symbols.register_later(callback),
+    TypeError,
+    "only accept thread-safe StoredCallbacks",
+  );
+  using threadSafe = new StoredCallback({ ...Callback, threadSafe: true }, (value) => value);
+  await lib.symbols.register_later(threadSafe);
+});
+
+Deno.test("promises of thread-safe callbacks called on the event loop are deadlocks", () => {
+  const lib = callbackLibrary();
+  using callback = new StoredCallback(
+    { ...Callback, threadSafe: true },
+    (value) => Promise.resolve(value),
+  );
+  lib.symbols.register(callback);
+  const error = assertThrows(() => lib.symbols.call(1), FfiDeadlockError);
+  assertEquals(error.diagnostics.reason, "async-result");
+});
+
+Deno.test("thread-safe callbacks called from foreign threads may answer later", async () => {
+  let address = 0n;
+  const lib = mockDlopen({
+    register: { parameters: [{ function: Callback }], result: "void" },
+  }, {
+    register(callback: bigint) {
+      address = callback;
+    },
+  });
+  using callback = new StoredCallback(
+    { ...Callback, threadSafe: true },
+    async (value) => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return value * 3;
+    },
+  );
+  lib.symbols.register(callback);
+  assertEquals(await lib.heap.callFromForeignThread(address, 5), 15);
+});
+
+Deno.test("callback errors follow the onError policy", () => {
+  const lib = callbackLibrary();
+  const fails = () => {
+    throw new Error("boom");
+  };
+  using fallback = new StoredCallback({ ...Callback, onError: { fallback: 7 } }, fails);
+  lib.symbols.register(fallback);
+  assertEquals(lib.symbols.call(1), 7);
+  using rethrow = new StoredCallback({ ...Callback, onError: "rethrow" }, fails);
+  lib.symbols.register(rethrow);
+  assertThrows(() => lib.symbols.call(1), Error, "boom");
+  using abort = new StoredCallback({ ...Callback, onError: "abort" }, fails);
+  lib.symbols.register(abort);
+  const error = assertThrows(() => lib.symbols.call(1), MockFault, "Process aborted");
+  assertEquals((error.cause as Error).message, "boom");
+});
+
+Deno.test("structs are passed and returned by value", () => {
+  const Point = new StructLayout({ x: "i32", y: "i32" });
+  const lib = mockDlopen({
+    mirror: { parameters: [{ struct: Point }], result: { struct: Point } },
+  }, {
+    mirror(bytes: Uint8Array) {
+      const view = new DataView(bytes.buffer, bytes.byteOffset);
+      const mirrored = new Uint8Array(8);
+      new DataView(mirrored.buffer).setInt32(0, view.getInt32(4, true), true);
+      new DataView(mirrored.buffer).setInt32(4, view.getInt32(0, true), true);
+      return mirrored;
+    },
+  });
+  assertEquals(lib.symbols.mirror({ x: 1, y: -2 }), { x: -2, y: 1 });
+  assertThrows(
+    // @ts-expect-error: every field is required.
+    () => lib.symbols.mirror({ x: 1 }),
+    TypeError,
+    'Missing struct field "y"',
+  );
+});
+
+Deno.test("C strings are encoded for the call and copied out of results", async () => {
+  const heap = new MockHeap();
+  const greeting = heap.allocCString("héllo");
+  const lib = mockDlopen({
+    length: { parameters: ["cstring"], result: "usize" },
+    length_later: { parameters: ["cstring"], result: "usize", nonblocking: true },
+    greeting: { parameters: [], result: "cstring" },
+  }, {
+    length: (pointer: bigint) => BigInt(heap.getCString(pointer, 0).length),
+    length_later: (pointer: bigint) => BigInt(heap.getCString(pointer, 0).length),
+    greeting: () => greeting,
+  }, { heap });
+  assertEquals(lib.symbols.length("abc"), 3n);
+  assertEquals(await lib.symbols.length_later("abcd"), 4n);
+  assertEquals(lib.symbols.greeting(), "héllo");
+  assertThrows(() => lib.symbols.length("a\0b"), TypeError);
+});
+
+Deno.test("nonblocking calls can be aborted without giving up their buffers", async () => {
+  let finish = () => {};
+  const lib = mockDlopen({
+    wait: { parameters: ["pointer"], result: "u32", nonblocking: true },
+  }, {
+    wait: () => new Promise<number>((resolve) => finish = () => resolve(5)),
+  });
+  const controller = new AbortController();
+  const pointer = new OwnedPointer(4);
+  const settled = Promise.withResolvers<{ pointers: OwnedPointer[]; result?: unknown }>();
+  const call = lib.symbols.wait(pointer, {
+    signal: controller.signal,
+    onSettled: settled.resolve,
+  });
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  controller.abort(new Error("stop"));
+  await assertRejects(() => call, Error, "stop");
+  // Still owned by the native side until it returns.
+  assertThrows(() => pointer.getDataView());
+  finish();
+  const { pointers, result } = await settled.promise;
+  assertStrictEquals(pointers[0], pointer);
+  assertEquals(result, 5);
+  assert(pointer.getDataView());
+});
@@ -0,0 +1,516 @@
+/**
+ * In-process mock backend for testing bindings without shared libraries.
+ *
+ * `mockDlopen` takes the same definition object as `dlopen` plus a JS
+ * implementation for each symbol, and returns a library that goes through
+ * the exact same shim code paths as a real one. The simulated "native side"
+ * lives in a `MockHeap`: a fake address space that implementations use to
+ * read and write memory behind the raw `bigint` addresses they receive.
+ *
+ * The proposal's semantics are reproduced faithfully:
+ *
+ * - Nonblocking symbols run on a simulated foreign thread after an actual
+ *   event-loop hop, with `OwnedPointer` arguments detached for the duration.
+ *   Their memory is unmapped once the call settles, so an implementation
+ *   that holds on to it faults instead of silently reading stale data. The
+ *   thread is passed to the implementation as an extra last argument, a
+ *   `MockThread` to call function pointers from.
+ * - Pointers handed to JS are opaque `ForeignPointer` objects.
+ * - Thread-safe `StoredCallback`s can be invoked "from a foreign thread"
+ *   through `MockHeap.callFromForeignThread`, which queues the call through
+ *   the same `CallbackDispatcher` ring a real foreign thread would use.
+ *   Doing the same for a synchronous callback faults.
+ *
+ * ```ts
+ * const heap = new MockHeap();
+ * let queueCallback = 0n;
+ * const lib = mockDlopen(definition, {
+ *   register_queue_callback(callback: bigint) {
+ *     queueCallback = callback;
+ *     return 0;
+ *   },
+ *   drain_queue() {
+ *     heap.call(queueCallback, heap.allocCString("item"));
+ *   },
+ * }, { heap });
+ * ```
+ */
+
+import { CallbackDispatcher, DispatcherProducer } from "./dispatcher.ts";
+import type { ForeignLibrary } from "./library.ts";
+import { wrapLibrary } from "./library.ts";
+import type {
+  NativeBackend,
+  NativeCallback,
+  NativeFunction,
+  NativeLoan,
+  NativeValue,
+} from "./native.ts";
+import { isStructType } from "./struct.ts";
+import type {
+  FunctionDescription,
+  LibraryDefinition,
+  LibraryOptions,
+  NativeType,
+  StoredFunctionDescription,
+} from "./types.ts";
+import { validateDefinitions } from "./validate.ts";
+
+/**
+ * Thrown where real native code would crash or invoke undefined behaviour,
+ * eg. reading unmapped memory or calling a closed callback trampoline.
+ */
+export class MockFault extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "MockFault";
+  }
+}
+
+interface Region {
+  address: bigint;
+  buffer: ArrayBuffer;
+  byteOffset: number;
+  byteLength: number;
+}
+
+/**
+ * A simulated foreign thread running a nonblocking call, passed to its
+ * implementation as an extra last argument.
+ */
+export interface MockThread {
+  /**
+   * Calls a function pointer from this thread. Calling a `StoredCallback`
+   * this way faults, like `MockHeap.call` does while a nonblocking
+   * implementation runs: synchronous callbacks cannot be called from foreign
+   * threads, and thread-safe ones go through `callFromForeignThread`.
+   */
+  call(address: bigint, ...args: NativeValue[]): unknown;
+}
+
+interface MockFunction {
+  fn: NativeFunction;
+  description: FunctionDescription | StoredFunctionDescription;
+  /**
+   * Set for stored callback trampolines created by the shim.
+   */
+  callback: boolean;
+  /**
+   * Queues calls from foreign threads for thread-safe callbacks.
+   */
+  producer?: DispatcherProducer;
+}
+
+const SIZES: Record<NativeType, number> = {
+  u8: 1,
+  i8: 1,
+  u16: 2,
+  i16: 2,
+  u32: 4,
+  i32: 4,
+  u64: 8,
+  i64: 8,
+  usize: 8,
+  isize: 8,
+  f32: 4,
+  f64: 8,
+  pointer: 8,
+};
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function eventLoopHop(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * Simulated address space and thread state. Implements the backend
+ * interface, so a single heap can be shared by several mock libraries and
+ * pointers can be passed between them.
+ */
+export class MockHeap implements NativeBackend {
+  #regions = new Map<bigint, Region>();
+  #functions = new Map<bigint, MockFunction>();
+  #nextAddress = 0x10000n;
+  /**
+   * Set while a simulated foreign thread runs synchronously. The thread
+   * itself may go on after awaiting, but by then other code runs in between.
+   */
+  #onForeignThread = false;
+  readonly kind = "mock";
+  readonly dispatchesCallbacks: boolean = true;
+  readonly poolsCallbacks: boolean = true;
+
+  #reserve(byteLength: number): bigint {
+    const address = this.#nextAddress;
+    // Leave a gap between regions so that overruns fault instead of
+    // reading into the neighbouring allocation.
+    this.#nextAddress += BigInt(Math.ceil(byteLength / 16) * 16 + 16);
+    return address;
+  }
+
+  #map(buffer: ArrayBuffer, byteOffset = 0, byteLength = buffer.byteLength): bigint {
+    const address = this.#reserve(byteLength);
+    this.#regions.set(address, { address, buffer, byteOffset, byteLength });
+    return address;
+  }
+
+  #resolve(address: bigint, byteLength: number): { region: Region; offset: number } {
+    for (const region of this.#regions.values()) {
+      const offset = address - region.address;
+      if (offset >= 0n && offset + BigInt(byteLength) <= BigInt(region.byteLength)) {
+        return { region, offset: Number(offset) };
+      }
+    }
+    throw new MockFault(
+      `Segmentation fault: ${byteLength} bytes at 0x${address.toString(16)} are not mapped`,
+    );
+  }
+
+  /**
+   * Allocates zeroed "native" memory and returns its address.
+   */
+  alloc(byteLength: number): bigint {
+    return this.#map(new ArrayBuffer(byteLength));
+  }
+
+  /**
+   * Frees memory allocated with `alloc`. Later accesses fault.
+   */
+  free(address: bigint): void {
+    if (!this.#regions.delete(address)) {
+      throw new MockFault(`Invalid free of 0x${address.toString(16)}`);
+    }
+  }
+
+  /**
+   * Allocates a NUL-terminated UTF-8 string and returns its address.
+   */
+  allocCString(value: string): bigint {
+    const bytes = encoder.encode(value);
+    const address = this.alloc(bytes.byteLength + 1);
+    new Uint8Array(this.#resolve(address, bytes.byteLength + 1).region.buffer)
+      .set(bytes);
+    return address;
+  }
+
+  /**
+   * Returns a DataView over `byteLength` bytes of mapped memory at `address`.
+   */
+  view(address: bigint, byteLength: number): DataView {
+    const { region, offset } = this.#resolve(address, byteLength);
+    return new DataView(region.buffer, region.byteOffset + offset, byteLength);
+  }
+
+  /**
+   * Registers a JS function as a "native" function and returns its address,
+   * eg. for implementations returning function pointers.
+   */
+  registerFunction(fn: NativeFunction, description: FunctionDescription): bigint {
+    const address = this.#reserve(0);
+    this.#functions.set(address, { fn, description, callback: false });
+    return address;
+  }
+
+  /**
+   * True unless currently running on a simulated foreign thread. Once a
+   * nonblocking implementation awaited, only its `MockThread` knows which
+   * thread it runs on.
+   */
+  isEventLoopThread(): boolean {
+    return !this.#onForeignThread;
+  }
+
+  #function(address: bigint): MockFunction {
+    const entry = this.#functions.get(address);
+    if (!entry) {
+      throw new MockFault(`Call to invalid function pointer 0x${address.toString(16)}`);
+    }
+    return entry;
+  }
+
+  /**
+   * Calls a function pointer on the current thread, like native code calling
+   * a callback synchronously (eg. from within `drain_queue`).
+   */
+  call(address: bigint, ...args: NativeValue[]): unknown {
+    return this.#call(address, args, !this.isEventLoopThread());
+  }
+
+  #call(address: bigint, args: NativeValue[], foreign: boolean): unknown {
+    const entry = this.#function(address);
+    if (entry.callback && foreign) {
+      const { threadSafe } = entry.description as StoredFunctionDescription;
+      throw new MockFault(
+        threadSafe
+          ? "Thread-safe callbacks must be called through callFromForeignThread from " +
+            "foreign threads"
+          : "Synchronous StoredCallback called from a foreign thread",
+      );
+    }
+    return entry.fn(...args);
+  }
+
+  /**
+   * Calls a thread-safe callback from a simulated foreign thread. The call
+   * is passed to the event loop and the returned promise stands in for the
+   * foreign thread blocking until the callback returns.
+   */
+  async callFromForeignThread(address: bigint, ...args: NativeValue[]): Promise<unknown> {
+    const entry = this.#function(address);
+    if (entry.callback && !(entry.description as StoredFunctionDescription).threadSafe) {
+      throw new MockFault("Synchronous StoredCallback called from a foreign thread");
+    }
+    await eventLoopHop();
+    // Re-check: the callback may have been deleted while the call was queued.
+    const current = this.#function(address);
+    if (current.producer) {
+      return await current.producer.callAsync(...args);
+    }
+    return await current.fn(...args);
+  }
+
+  /**
+   * Runs `fn` on a simulated foreign thread after an event-loop hop.
+   */
+  async runOnForeignThread<T>(fn: (thread: MockThread) => T | Promise<T>): Promise<T> {
+    await eventLoopHop();
+    const thread: MockThread = {
+      call: (address, ...args) => this.#call(address, args, true),
+    };
+    this.#onForeignThread = true;
+    let returned: T | Promise<T>;
+    try {
+      returned = fn(thread);
+    } finally {
+      this.#onForeignThread = false;
+    }
+    return await returned;
+  }
+
+  lend(buffer: ArrayBuffer): NativeLoan {
+    const pointer = this.#map(buffer);
+    return {
+      pointer,
+      release: () => {
+        this.#regions.delete(pointer);
+      },
+    };
+  }
+
+  aliasBuffer(): ArrayBuffer | null {
+    // Part of a JS buffer cannot be aliased from JS.
+    return null;
+  }
+
+  read(pointer: bigint, offset: number, type: NativeType): number | bigint {
+    const view = this.view(pointer + BigInt(offset), SIZES[type]);
+    switch (type) {
+      case "u8":
+        return view.getUint8(0);
+      case "i8":
+        return view.getInt8(0);
+      case "u16":
+        return view.getUint16(0, true);
+      case "i16":
+        return view.getInt16(0, true);
+      case "u32":
+        return view.getUint32(0, true);
+      case "i32":
+        return view.getInt32(0, true);
+      case "u64":
+      case "usize":
+      case "pointer":
+        return view.getBigUint64(0, true);
+      case "i64":
+      case "isize":
+        return view.getBigInt64(0, true);
+      case "f32":
+        return view.getFloat32(0, true);
+      case "f64":
+        return view.getFloat64(0, true);
+    }
+  }
+
+  getArrayBuffer(pointer: bigint, byteLength: number, offset: number): ArrayBuffer {
+    const view = this.view(pointer + BigInt(offset), byteLength);
+    return new Uint8Array(view.buffer, view.byteOffset, byteLength).slice().buffer;
+  }
+
+  copyInto(pointer: bigint, destination: ArrayBufferView, offset: number): void {
+    const view = this.view(pointer + BigInt(offset), destination.byteLength);
+    new Uint8Array(destination.buffer, destination.byteOffset, destination.byteLength)
+      .set(new Uint8Array(view.buffer, view.byteOffset, view.byteLength));
+  }
+
+  getCString(pointer: bigint, offset: number): string {
+    const start = pointer + BigInt(offset);
+    const { region, offset: regionOffset } = this.#resolve(start, 1);
+    const bytes = new Uint8Array(
+      region.buffer,
+      region.byteOffset + regionOffset,
+      region.byteLength - regionOffset,
+    );
+    const end = bytes.indexOf(0);
+    if (end === -1) {
+      throw new MockFault("Unterminated C string runs past the end of mapped memory");
+    }
+    return decoder.decode(bytes.subarray(0, end));
+  }
+
+  bindFunction(pointer: bigint, description: FunctionDescription): NativeFunction {
+    // Called nonblocking, the function gets the thread it runs on last, like
+    // implementations of nonblocking symbols do.
+    const native = (...args: unknown[]) => this.call(pointer, ...args as NativeValue[]);
+    return this.#symbol(native, description);
+  }
+
+  createCallback(
+    description: StoredFunctionDescription,
+    callback: NativeFunction,
+  ): NativeCallback {
+    const address = this.#reserve(0);
+    if (!description.threadSafe) {
+      this.#functions.set(address, { fn: callback, description, callback: true });
+      return {
+        pointer: address,
+        close: () => {
+          this.#functions.delete(address);
+        },
+      };
+    }
+    const dispatcher = new CallbackDispatcher(description, callback);
+    this.#functions.set(address, {
+      fn: (...args) => dispatcher.callDirect(...args),
+      description,
+      callback: true,
+      producer: new DispatcherProducer(dispatcher.buffer, description),
+    });
+    return {
+      pointer: address,
+      close: () => {
+        this.#functions.delete(address);
+        dispatcher.close();
+      },
+    };
+  }
+
+  createPooledCallback(
+    description: StoredFunctionDescription,
+    ring: SharedArrayBuffer,
+  ): NativeCallback {
+    const address = this.#reserve(0);
+    const producer = new DispatcherProducer(ring, description);
+    // The workers answer without the event loop, so blocking it is safe.
+    this.#functions.set(address, {
+      fn: (...args) => producer.call(...args),
+      description,
+      callback: true,
+      producer,
+    });
+    return {
+      pointer: address,
+      close: () => {
+        this.#functions.delete(address);
+      },
+    };
+  }
+
+  /**
+   * Simulates the process aborting: native code has no way of handling the
+   * fault, so it propagates all the way out of the current call.
+   */
+  abort(error: unknown): never {
+    throw new MockFault("Process aborted by a stored callback's error policy", {
+      cause: error,
+    });
+  }
+
+  /**
+   * Adapts an implementation to the calling convention: borrowed buffers are
+   * mapped for the duration of the call and nonblocking calls are run on a
+   * simulated foreign thread.
+   */
+  #symbol(
+    fn: (...args: unknown[]) => unknown,
+    description: FunctionDescription,
+  ): NativeFunction {
+    return (...args) => {
+      const borrowed: bigint[] = [];
+      const lowered = args.map((arg, index) => {
+        // Structs passed by value stay as bytes, only borrowed buffers get an address.
+        if (!ArrayBuffer.isView(arg) || isStructType(description.parameters[index])) {
+          return arg;
+        }
+        const address = this.#map(arg.buffer as ArrayBuffer, arg.byteOffset, arg.byteLength);
+        borrowed.push(address);
+        return address;
+      });
+      if (description.nonblocking) {
+        // Only `OwnedPointer` loans reach nonblocking calls, never borrowed buffers.
+        return this.runOnForeignThread((thread) => fn(...lowered, thread));
+      }
+      try {
+        return fn(...lowered);
+      } finally {
+        for (const address of borrowed) {
+          this.#regions.delete(address);
+        }
+      }
+    };
+  }
+
+  /**
+   * Creates the native side of a mock library.
+   */
+  load(
+    definition: LibraryDefinition,
+    implementations: Record<string, (...args: unknown[]) => unknown>,
+  ) {
+    const symbols: Record<string, NativeFunction> = {};
+    for (const [key, description] of Object.entries(definition)) {
+      const implementation = implementations[key];
+      if (typeof implementation !== "function") {
+        throw new Error(`Could not find symbol "${description.name ?? key}" in mock library`);
+      }
+      symbols[key] = this.#symbol(implementation, description);
+    }
+    return { symbols, close() {} };
+  }
+}
+
+/**
+ * JS implementations for each symbol of a definition. Implementations
+ * receive raw values: numbers, `bigint` addresses for pointers and
+ * callbacks, `Uint8Array`s holding the bytes of structs passed by value,
+ * and return the same. Nonblocking implementations receive the
+ * `MockThread` they run on as an extra last argument.
+ */
+export type MockImplementations<S extends LibraryDefinition> = {
+  [K in keyof S]: (...args: never[]) => unknown;
+};
+
+export interface MockDlopenOptions extends LibraryOptions {
+  /**
+   * Heap to use. Share a heap between libraries to pass pointers between them.
+   */
+  heap?: MockHeap;
+}
+
+/**
+ * Mock counterpart of `dlopen`.
+ */
+export function mockDlopen<const S extends LibraryDefinition>(
+  definition: S,
+  implementations: MockImplementations<S>,
+  options: MockDlopenOptions = {},
+): ForeignLibrary<S> & { heap: MockHeap } {
+  validateDefinitions(definition, options);
+  const heap = options.heap ?? new MockHeap();
+  const native = heap.load(
+    definition,
+    implementations as Record<string, (...args: unknown[]) => unknown>,
+  );
+  return Object.assign(wrapLibrary(heap, native, definition, options), { heap });
+}
@@ -0,0 +1,119 @@
+import { assert, assertEquals, assertFalse, assertThrows } from "jsr:@std/assert@1";
+import { MockFault, MockHeap, mockDlopen } from "./mock.ts";
+import type { MockThread } from "./mock.ts";
+import { OwnedPointer, StoredCallback } from "./mod.ts";
+
+const Callback = { parameters: ["u32"], result: "u32" } as const;
+
+Deno.test("MockHeap faults on unmapped and freed memory", () => {
+  const heap = new MockHeap();
+  const address = heap.alloc(8);
+  heap.view(address, 8).setUint32(4, 42, true);
+  assertEquals(heap.read(address, 4, "u32"), 42);
+  assertThrows(() => heap.read(address, 6, "u32"), MockFault, "Segmentation fault");
+  heap.free(address);
+  assertThrows(() => heap.view(address, 1), MockFault, "not mapped");
+  assertThrows(() => heap.free(address), MockFault, "Invalid free");
+});
+
+Deno.test("MockHeap reads C strings and faults past mapped memory", () => {
+  const heap = new MockHeap();
+  assertEquals(heap.getCString(heap.allocCString("hello"), 1), "ello");
+  const unterminated = heap.alloc(4);
+  heap.view(unterminated, 4).setUint32(0, 0x41414141);
+  assertThrows(() => heap.getCString(unterminated, 0), MockFault, "Unterminated");
+});
+
+Deno.test("mockDlopen rejects missing implementations", () => {
+  assertThrows(
+    () => mockDlopen({ add: { parameters: ["i32", "i32"], result: "i32" } }, {} as never),
+    Error,
+    'Could not find symbol "add"',
+  );
+});
+
+Deno.test("nonblocking calls run on a foreign thread with their buffers detached", async () => {
+  let lent = 0n;
+  const lib = mockDlopen({
+    fill: { parameters: ["pointer"], result: "void", nonblocking: true },
+  }, {
+    fill(pointer: bigint) {
+      lent = pointer;
+      assertFalse(lib.heap.isEventLoopThread());
+      lib.heap.view(pointer, 4).setUint32(0, 7, true);
+    },
+  });
+  const pointer = new OwnedPointer(4);
+  const call = lib.symbols.fill(pointer);
+  assert(lib.heap.isEventLoopThread());
+  assertThrows(() => pointer.getDataView(), Error, "owned by a nonblocking call");
+  await call;
+  assertEquals(pointer.getDataView().getUint32(0, true), 7);
+  // The loan ended with the call.
+  assertThrows(() => lib.heap.view(lent, 4), MockFault);
+});
+
+Deno.test("only the running part of a foreign thread counts as off the event loop", async () => {
+  let address = 0n;
+  const lib = mockDlopen({
+    work: { parameters: [], result: "u32", nonblocking: true },
+    register: { parameters: [{ function: Callback }], result: "void" },
+    drain: { parameters: ["u32"], result: "u32" },
+  }, {
+    async work(thread: MockThread) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      assertThrows(() => thread.call(address, 1), MockFault, "from a foreign thread");
+      return 1;
+    },
+    register(callback: bigint) {
+      address = callback;
+    },
+    drain(value: number) {
+      return lib.heap.call(address, value) as number;
+    },
+  });
+  using callback = new StoredCallback(Callback, (value) => value * 2);
+  lib.symbols.register(callback);
+  const work = lib.symbols.work();
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  // The foreign thread is still running, but not here.
+  assert(lib.heap.isEventLoopThread());
+  assertEquals(lib.symbols.drain(21), 42);
+  assertEquals(await work, 1);
+});
+
+Deno.test("synchronous callbacks called from a foreign thread fault", async () => {
+  let address = 0n;
+  const lib = mockDlopen({
+    register: { parameters: [{ function: Callback }], result: "void" },
+  }, {
+    register(callback: bigint) {
+      address = callback;
+    },
+  });
+  using callback = new StoredCallback(Callback, (value) => value);
+  lib.symbols.register(callback);
+  let fault: unknown;
+  try {
+    await lib.heap.callFromForeignThread(address, 1);
+  } catch (error) {
+    fault = error;
+  }
+  assert(fault instanceof MockFault);
+});
+
+Deno.test("calling a deleted callback faults", () => {
+  let address = 0n;
+  const lib = mockDlopen({
+    register: { parameters: [{ function: Callback }], result: "void" },
+  }, {
+    register(callback: bigint) {
+      address = callback;
+    },
+  });
+  const callback = new StoredCallback(Callback, (value) => value);
+  lib.symbols.register(callback);
+  assertEquals(lib.heap.call(address, 3), 3);
+  callback.delete();
+  assertThrows(() => lib.heap.call(address, 3), MockFault, "invalid function pointer");
+});
@@ -0,0 +1,99 @@
+/**
+ * Userland implementation of `proposal.d.ts` on top of today's unstable Deno FFI.
+ *
+ * Code written against this module should keep working unchanged once the
+ * proposed API is available in Deno itself.
+ */
+
+export { classifyStruct } from "./abi.ts";
+export type { EightbyteClass, StructClassification } from "./abi.ts";
+export { CallbackStream } from "./callback_stream.ts";
+export type { CallbackStreamOptions, OverflowPolicy } from "./callback_stream.ts";
+export type { CStringOptions } from "./cstring.ts";
+export { CallbackDispatcher, DispatcherProducer } from "./dispatcher.ts";
+export type { CallbackDispatcherOptions, DispatcherProducerOptions } from "./dispatcher.ts";
+export {
+  CallbackErrorEvent,
+  FfiDeadlockError,
+  FfiDefinitionError,
+  FfiLeakError,
+  FfiReentrancyError,
+  FfiUseAfterFreeError,
+  ForeignCallError,
+} from "./errors.ts";
+export type { FfiDeadlockDiagnostics, RevocationReason } from "./errors.ts";
+export { ForeignOwnedPointer } from "./foreign_owned_pointer.ts";
+export { assertNoFfiLeaks, disableLeakTracking, enableLeakTracking } from "./leaks.ts";
+export type { FfiLeak, FfiLeakKind, LeakTrackingOptions } from "./leaks.ts";
+export { dlopen } from "./library.ts";
+export type { ForeignLibrary } from "./library.ts";
+export { OwnedPointer } from "./owned_pointer.ts";
+export { ForeignFunction, ForeignPointer } from "./pointer.ts";
+export { OwnedPointerPool } from "./pool.ts";
+export type {
+  BucketStats,
+  OwnedPointerPoolOptions,
+  OwnedPointerPoolStats,
+} from "./pool.ts";
+export { CallbackRegistration } from "./registration.ts";
+export { ReplyHandle } from "./reply.ts";
+export type {
+  CallbackArgument,
+  CallbackArguments,
+  CallbackFunction,
+  CallbackResult,
+  CallValue,
+  ForeignCall,
+  ForeignSymbol,
+  ForeignSymbols,
+  InputParameters,
+  OutValues,
+  ParameterValue,
+  ParameterValues,
+  ResultValue,
+  TypedArray,
+} from "./signatures.ts";
+export { StoredCallback } from "./stored_callback.ts";
+export { StructLayout } from "./struct.ts";
+export type {
+  AccessorValue,
+  ArrayType,
+  FieldType,
+  FieldValue,
+  StructAccessor,
+  StructFields,
+  StructReader,
+  StructType,
+} from "./struct.ts";
+export type {
+  BytesType,
+  CallbackErrorPolicy,
+  CallOptions,
+  CStringEncoding,
+  CStringType,
+  ErrorCodes,
+  ErrorConvention,
+  FunctionDescription,
+  FunctionType,
+  LibraryDefinition,
+  LibraryOptions,
+  NativeType,
+  OutParameterType,
+  OwningPointerType,
+  ParameterType,
+  Reentrancy,
+  ReplyOptions,
+  ResultType,
+  RevokingPointerType,
+  SettledCall,
+  StoredFunctionDescription,
+  SymbolDefinition,
+  ThreadSafety,
+} from "./types.ts";
+export { validateDefinitions } from "./validate.ts";
+export type { FfiDefinitionProblem } from "./validate.ts";
+export { ForeignPointerView } from "./view.ts";
+export { VtableLayout } from "./vtable.ts";
+export type { ForeignVtable, VtableCallbacks, VtableEntries, VtableEntry } from "./vtable.ts";
+export { WorkerPoolCallback } from "./worker_pool.ts";
+export type { WorkerPoolOptions } from "./worker_pool.ts";
@@ -0,0 +1,114 @@
+/**
+ * The shim never touches `Deno.UnsafePointer` and friends directly outside of
+ * a backend. Everything below the proposal's API surface goes through this
+ * interface, so that the unstable calls are kept in one place and can be
+ * swapped out when the real API lands.
+ *
+ * Raw pointers are represented as `bigint` addresses, with `0n` being null.
+ * These never leave the shim: user code only ever sees `ForeignPointer`,
+ * `ForeignFunction`, `OwnedPointer` and `StoredCallback` objects.
+ */
+
+import type {
+  FunctionDescription,
+  NativeType,
+  StoredFunctionDescription,
+} from "./types.ts";
+
+/**
+ * A value as the native side sees it. Pointer-typed arguments are either a
+ * raw address or a buffer borrowed for the duration of a synchronous call.
+ */
+export type NativeValue =
+  | number
+  | bigint
+  | boolean
+  | ArrayBufferView
+  | null
+  | undefined;
+
+export type NativeFunction = (...args: NativeValue[]) => unknown;
+
+export interface NativeLibrary {
+  symbols: Record<string, NativeFunction>;
+  close(): void;
+}
+
+export interface NativeCallback {
+  /**
+   * Address of the C trampoline handed to the native library.
+   */
+  readonly pointer: bigint;
+  close(): void;
+}
+
+/**
+ * A buffer lent to the native side for the duration of a nonblocking call.
+ */
+export interface NativeLoan {
+  readonly pointer: bigint;
+  release(): void;
+}
+
+/**
+ * Everything the shim needs from the native side, apart from opening
+ * libraries which is backend specific.
+ */
+export interface NativeBackend {
+  /**
+   * Which implementation this is, so that workers can set up their own
+   * instance of it.
+   */
+  readonly kind: "deno" | "mock";
+  /**
+   * Gives out the address of a buffer's backing store. The caller is
+   * responsible for keeping the buffer alive and out of JS hands until
+   * the loan is released.
+   */
+  lend(buffer: ArrayBuffer): NativeLoan;
+  /**
+   * Creates an `ArrayBuffer` over `byteLength` bytes of `buffer`'s backing
+   * store starting at `byteOffset`, without copying, or returns `null` if the
+   * backend cannot alias memory. The result does not keep `buffer` alive.
+   */
+  aliasBuffer(buffer: ArrayBuffer, byteOffset: number, byteLength: number): ArrayBuffer | null;
+  read(pointer: bigint, offset: number, type: NativeType): number | bigint;
+  /**
+   * Copies `byteLength` bytes of foreign memory into a new `ArrayBuffer`.
+   * It must not alias the memory, or revoking the pointer it was read
+   * through would not revoke access to it.
+   */
+  getArrayBuffer(pointer: bigint, byteLength: number, offset: number): ArrayBuffer;
+  copyInto(pointer: bigint, destination: ArrayBufferView, offset: number): void;
+  getCString(pointer: bigint, offset: number): string;
+  bindFunction(pointer: bigint, description: FunctionDescription): NativeFunction;
+  createCallback(
+    description: StoredFunctionDescription,
+    callback: NativeFunction,
+  ): NativeCallback;
+  /**
+   * Whether thread-safe callbacks are served through a `CallbackDispatcher`,
+   * which holds the calling thread until a promise the callback returned
+   * settles. Otherwise callbacks have to answer synchronously.
+   */
+  readonly dispatchesCallbacks: boolean;
+  /**
+   * Whether callbacks can be served by a pool of workers, see
+   * `createPooledCallback`.
+   */
+  readonly poolsCallbacks: boolean;
+  /**
+   * Creates the native side of a callback served by a pool of workers: calls
+   * from any thread, the event-loop thread included, are queued into `ring`,
+   * a `createDispatcherBuffer` ring the workers consume. Throws unless the
+   * backend `poolsCallbacks`.
+   */
+  createPooledCallback(
+    description: StoredFunctionDescription,
+    ring: SharedArrayBuffer,
+  ): NativeCallback;
+  /**
+   * Aborts the process because of an error native code cannot be told about.
+   */
+  abort(error: unknown): never;
+}
@@ -0,0 +1,367 @@
+import { encodeCString } from "./cstring.ts";
+import { denoBackend } from "./deno_backend.ts";
+import { recordCreation, unwatch, watch } from "./leaks.ts";
+import { bindForeignFunction } from "./marshal.ts";
+import type { NativeBackend, NativeLoan } from "./native.ts";
+import type { ForeignFunction } from "./pointer.ts";
+import type { CStringEncoding, FunctionDescription } from "./types.ts";
+
+/**
+ * An `OwnedPointer`'s buffer lent out to a nonblocking call.
+ */
+export interface PointerLoan extends NativeLoan {
+  readonly owner: OwnedPointer;
+  /**
+   * Ends the loan without giving the buffer back: the OwnedPointer stays
+   * unusable and the buffer is freed once garbage collected.
+   */
+  discard(): void;
+}
+
+let lendOwnedPointer: (
+  pointer: OwnedPointer,
+  backend: NativeBackend,
+) => PointerLoan;
+let borrowOwnedPointer: (
+  pointer: OwnedPointer,
+  backend: NativeBackend,
+) => Uint8Array;
+let ownedPointerBackend: (pointer: OwnedPointer) => NativeBackend;
+let onOwnedPointerConsumed: (pointer: OwnedPointer, callback: () => void) => void;
+
+/**
+ * Shared state of the pieces created by one `split()` call. The backing
+ * buffer is only ever reachable from here; pieces see their own region
+ * through a zero-copy alias, or hold a copy of it if the backend cannot
+ * alias memory.
+ */
+interface SplitGroup {
+  store: ArrayBuffer;
+  offset: number;
+  length: number;
+  /**
+   * Every piece the split created. Pieces that were split again or disposed
+   * stay, so that only a whole split can be joined.
+   */
+  pieces: Set<OwnedPointer>;
+  /**
+   * Group the split pointer itself belonged to, if it was a piece, and that
+   * piece.
+   */
+  parent: SplitGroup | null;
+  source: OwnedPointer | null;
+  backend: NativeBackend;
+}
+
+/**
+ * Keeps a group's backing buffer alive for as long as any buffer handed out
+ * for one of its regions is reachable, eg. through a retained DataView.
+ */
+const regionOwners = new WeakMap<ArrayBuffer, SplitGroup>();
+
+let createPiece: (group: SplitGroup, offset: number, length: number) => OwnedPointer;
+
+/**
+ * Strictly safe wrapper around JS-owned data. See `nonblocking/safe.ts`.
+ *
+ * When passed into a nonblocking call the internal buffer is transferred
+ * into a slot that only the shim can reach, leaving the `OwnedPointer` with a
+ * detached buffer. Once the call settles the same backing store is put back,
+ * so no copying occurs in either direction.
+ */
+export class OwnedPointer {
+  #buffer: ArrayBuffer | null;
+  #lent = false;
+  #backend: NativeBackend | undefined;
+  #group: SplitGroup | null = null;
+  #offset = 0;
+  // Whether the buffer is a copy of the piece's region rather than an alias.
+  #copy = false;
+  #disposed = false;
+  // Run once the OwnedPointer becomes unusable, see `onOwnedPointerConsumed`.
+  #onConsumed: (() => void) | null = null;
+
+  /**
+   * Constructs a new OwnedPointer. If passed an ArrayBuffer or
+   * TypedArray, the OwnedPointer will take ownership of the buffer
+   * and the passed-in buffer object will become detached, zero-size
+   * and no longer pointing to any data.
+   *
+   * This transfer of ownership is a zero-copy operation.
+   */
+  constructor(arg: number | ArrayBuffer | ArrayBufferView) {
+    if (typeof arg === "number") {
+      this.#buffer = new ArrayBuffer(arg);
+    } else if (arg instanceof ArrayBuffer) {
+      this.#buffer = structuredClone(arg, { transfer: [arg] });
+    } else if (
+      typeof arg === "object" &&
+      arg &&
+      arg.buffer instanceof ArrayBuffer
+    ) {
+      this.#buffer = structuredClone(arg.buffer, { transfer: [arg.buffer] });
+    } else {
+      throw new TypeError("Invalid invocation");
+    }
+    recordCreation(this);
+  }
+
+  /**
+   * Returns ownership of the buffer, detaching it from the OwnedPointer.
+   * The OwnedPointer becomes unusable after this. Throws if called twice
+   * or while a nonblocking call owns the buffer.
+   */
+  transfer(): ArrayBuffer {
+    const buffer = this.#ownBuffer();
+    if (this.#group) {
+      // The buffer aliases memory owned by the group, it cannot outlive it.
+      throw new Error("Cannot transfer ownership of a split region, join it first");
+    }
+    this.#buffer = null;
+    this.#consumed();
+    return structuredClone(buffer, { transfer: [buffer] });
+  }
+
+  /**
+   * Returns a DataView into the buffer while keeping ownership of the buffer
+   * in the OwnedPointer. Reads and writes through the DataView will throw
+   * while the buffer is lent to a nonblocking call.
+   */
+  getDataView(): DataView {
+    const buffer = this.#ownBuffer();
+    if (this.#group) {
+      regionOwners.set(buffer, this.#group);
+    }
+    return new DataView(buffer);
+  }
+
+  /**
+   * Splits the OwnedPointer into disjoint OwnedPointers at the given byte
+   * offsets, like Rust's `split_at_mut`, without copying. The OwnedPointer
+   * itself becomes unusable. Each piece can be passed into nonblocking calls
+   * independently: lending one piece detaches only that piece.
+   *
+   * Offsets must be in ascending order and within the buffer. Backends that
+   * cannot alias memory, like the mock, give pieces copies of their region
+   * instead, which are written back when they are split again or joined.
+   */
+  split(...offsets: number[]): OwnedPointer[] {
+    const buffer = this.#ownBuffer();
+    const length = buffer.byteLength;
+    let previous = 0;
+    for (const offset of offsets) {
+      if (!Number.isInteger(offset) || offset < previous || offset > length) {
+        throw new RangeError("Split offsets must be ascending and within the buffer");
+      }
+      previous = offset;
+    }
+    let group: SplitGroup;
+    if (this.#group) {
+      this.#writeBack();
+      group = {
+        store: this.#group.store,
+        offset: this.#offset,
+        length,
+        pieces: new Set(),
+        parent: this.#group,
+        source: this,
+        backend: this.#group.backend,
+      };
+    } else {
+      group = {
+        store: structuredClone(buffer, { transfer: [buffer] }),
+        offset: 0,
+        length,
+        pieces: new Set(),
+        parent: null,
+        source: null,
+        backend: this.#backend ?? denoBackend,
+      };
+      // Already detached by moving it into the store.
+      this.#buffer = null;
+    }
+    this.#consume();
+    const bounds = [0, ...offsets, length];
+    const pieces: OwnedPointer[] = [];
+    for (let index = 0; index < bounds.length - 1; index++) {
+      pieces.push(
+        createPiece(group, group.offset + bounds[index], bounds[index + 1] - bounds[index]),
+      );
+    }
+    return pieces;
+  }
+
+  /**
+   * Joins the pieces of a `split()` back into a single OwnedPointer. Only
+   * succeeds once every piece is back in JS hands: none of them may be owned
+   * by a nonblocking call or have been consumed. Pieces that were split
+   * again have to be joined back first, and a split with a disposed piece
+   * can never be joined. The pieces become unusable.
+   */
+  static join(pieces: OwnedPointer[]): OwnedPointer {
+    const group = pieces.length > 0 ? pieces[0].#group : null;
+    if (
+      !group ||
+      pieces.length !== group.pieces.size ||
+      new Set(pieces).size !== group.pieces.size ||
+      pieces.some((piece) => !group.pieces.has(piece))
+    ) {
+      throw new Error("Can only join all pieces of a single split");
+    }
+    if (pieces.some((piece) => piece.#lent)) {
+      throw new Error("Cannot join while a piece is owned by a nonblocking call");
+    }
+    if (pieces.some((piece) => piece.#buffer === null)) {
+      throw new Error("Cannot join pieces that were disposed, or split again and not joined back");
+    }
+    for (const piece of pieces) {
+      piece.#writeBack();
+      piece.#consume();
+    }
+    group.pieces.clear();
+    if (group.parent) {
+      // The joined piece takes the place of the piece that was split.
+      group.parent.pieces.delete(group.source!);
+      return createPiece(group.parent, group.offset, group.length);
+    }
+    return new OwnedPointer(group.store);
+  }
+
+  /**
+   * Creates an OwnedPointer holding `value` as a NUL-terminated string,
+   * eg. for nonblocking calls taking a `"cstring"` or `"pointer"`. Throws
+   * for strings containing NUL, and for `"latin1"` ones with characters
+   * past U+00FF.
+   */
+  static fromCString(value: string, encoding: CStringEncoding = "utf8"): OwnedPointer {
+    return new OwnedPointer(encodeCString(value, encoding));
+  }
+
+  /**
+   * Frees the buffer, for use with `using`: the OwnedPointer becomes
+   * unusable. If a nonblocking call currently owns the buffer, it is freed
+   * once the call settles instead of being handed back.
+   */
+  [Symbol.dispose](): void {
+    if (this.#lent) {
+      this.#disposed = true;
+      return;
+    }
+    this.#consume();
+  }
+
+  /**
+   * Writes a piece holding a copy of its region back into the group's store.
+   */
+  #writeBack(): void {
+    if (this.#copy) {
+      new Uint8Array(this.#group!.store, this.#offset).set(new Uint8Array(this.#buffer!));
+    }
+  }
+
+  /**
+   * Makes the OwnedPointer unusable, detaching its current buffer.
+   */
+  #consume(): void {
+    const buffer = this.#buffer;
+    this.#buffer = null;
+    if (buffer) {
+      structuredClone(buffer, { transfer: [buffer] });
+    }
+    this.#consumed();
+  }
+
+  #consumed(): void {
+    const callback = this.#onConsumed;
+    this.#onConsumed = null;
+    callback?.();
+  }
+
+  /**
+   * Reads a foreign function pointer written into the buffer by a foreign
+   * call. This really only makes sense for `BigUint64Array(1)` buffers.
+   *
+   * Returns `null` if the buffer contains a null pointer.
+   */
+  getForeignFunction<T extends FunctionDescription>(
+    definition: T,
+  ): ForeignFunction<T> | null {
+    const buffer = this.#ownBuffer();
+    const address = new BigUint64Array(buffer, 0, 1)[0];
+    return bindForeignFunction(ownedPointerBackend(this), address, definition);
+  }
+
+  #ownBuffer(): ArrayBuffer {
+    if (this.#lent) {
+      throw new Error("Cannot access buffer while it is owned by a nonblocking call");
+    }
+    if (this.#buffer === null) {
+      throw new Error("Cannot transfer ownership from detached buffer");
+    }
+    return this.#buffer;
+  }
+
+  static {
+    createPiece = (group, offset, length) => {
+      const alias = group.backend.aliasBuffer(group.store, offset, length);
+      const piece = new OwnedPointer(alias ?? group.store.slice(offset, offset + length));
+      piece.#group = group;
+      piece.#offset = offset;
+      piece.#copy = alias === null;
+      group.pieces.add(piece);
+      return piece;
+    };
+    lendOwnedPointer = (pointer, backend) => {
+      const buffer = pointer.#ownBuffer();
+      // Detaches `#buffer`: any DataView given out earlier now throws on access.
+      const held = structuredClone(buffer, { transfer: [buffer] });
+      const loan = backend.lend(held);
+      pointer.#lent = true;
+      pointer.#backend = backend;
+      watch(pointer, "owned-pointer");
+      return {
+        pointer: loan.pointer,
+        owner: pointer,
+        release() {
+          loan.release();
+          unwatch(pointer);
+          pointer.#buffer = held;
+          pointer.#lent = false;
+          if (pointer.#disposed) {
+            pointer[Symbol.dispose]();
+          }
+        },
+        discard() {
+          loan.release();
+          unwatch(pointer);
+          pointer.#buffer = null;
+          pointer.#lent = false;
+          pointer.#consumed();
+        },
+      };
+    };
+    borrowOwnedPointer = (pointer, backend) => {
+      const buffer = pointer.#ownBuffer();
+      pointer.#backend = backend;
+      if (pointer.#group) {
+        regionOwners.set(buffer, pointer.#group);
+      }
+      return new Uint8Array(buffer);
+    };
+    // Pointers found inside the buffer were written by the native side of
+    // the last library the buffer was passed to.
+    ownedPointerBackend = (pointer) => {
+      if (!pointer.#backend) {
+        throw new Error("OwnedPointer has not been passed to a foreign library");
+      }
+      return pointer.#backend;
+    };
+    // Runs `callback` once the pointer is transferred, split, joined,
+    // disposed or discarded after a nonblocking call.
+    onOwnedPointerConsumed = (pointer, callback) => {
+      pointer.#onConsumed = callback;
+    };
+  }
+}
+
+export { borrowOwnedPointer, lendOwnedPointer, onOwnedPointerConsumed, ownedPointerBackend };
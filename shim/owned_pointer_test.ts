@@ -0,0 +1,92 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert@1";
+import { mockDlopen } from "./mock.ts";
+import { OwnedPointer } from "./mod.ts";
+
+function fillLibrary() {
+  const lib = mockDlopen({
+    fill: { parameters: ["pointer", "usize", "u8"], result: "void", nonblocking: true },
+  }, {
+    fill(pointer: bigint, length: bigint, value: number) {
+      const view = lib.heap.view(pointer, Number(length));
+      new Uint8Array(view.buffer, view.byteOffset, view.byteLength).fill(value);
+    },
+  });
+  return lib;
+}
+
+Deno.test("OwnedPointer takes over buffers and transfers them out once", () => {
+  const bytes = new Uint8Array([1, 2, 3]);
+  const pointer = new OwnedPointer(bytes);
+  assertEquals(bytes.byteLength, 0);
+  assertEquals(new Uint8Array(pointer.transfer()), new Uint8Array([1, 2, 3]));
+  assertThrows(() => pointer.transfer(), Error, "detached buffer");
+  assertThrows(() => pointer.getDataView(), Error, "detached buffer");
+});
+
+Deno.test("DataViews of a lent OwnedPointer throw until the call settles", async () => {
+  const lib = fillLibrary();
+  const pointer = new OwnedPointer(4);
+  const view = pointer.getDataView();
+  const call = lib.symbols.fill(pointer, 4n, 9);
+  assertThrows(() => view.getUint8(0), TypeError);
+  assertThrows(() => lib.symbols.fill(pointer, 4n, 9), Error, "owned by a nonblocking call");
+  await call;
+  assertEquals(new Uint8Array(pointer.transfer()), new Uint8Array([9, 9, 9, 9]));
+});
+
+Deno.test("disposing a lent OwnedPointer frees it once the call settles", async () => {
+  const lib = fillLibrary();
+  const pointer = new OwnedPointer(4);
+  const call = lib.symbols.fill(pointer, 4n, 1);
+  pointer[Symbol.dispose]();
+  await call;
+  assertThrows(() => pointer.getDataView(), Error, "detached buffer");
+});
+
+Deno.test("split pieces are lent independently and joined back", async () => {
+  const lib = fillLibrary();
+  const [head, tail] = new OwnedPointer(4).split(1);
+  const call = lib.symbols.fill(tail, 3n, 7);
+  head.getDataView().setUint8(0, 1);
+  assertThrows(() => OwnedPointer.join([head, tail]), Error, "owned by a nonblocking call");
+  await call;
+  const joined = OwnedPointer.join([head, tail]);
+  assertEquals(new Uint8Array(joined.transfer()), new Uint8Array([1, 7, 7, 7]));
+  assertThrows(() => head.getDataView(), Error, "detached buffer");
+});
+
+Deno.test("pieces split again join back level by level", () => {
+  const [left, right] = new OwnedPointer(new Uint8Array([1, 2, 3, 4])).split(2);
+  const [a, b] = right.split(1);
+  b.getDataView().setUint8(0, 9);
+  assertThrows(() => OwnedPointer.join([left, a]), Error, "all pieces of a single split");
+  assertThrows(() => OwnedPointer.join([left]), Error, "all pieces of a single split");
+  assertThrows(() => OwnedPointer.join([left, right]), Error, "split again");
+  assertThrows(() => left.transfer(), Error, "join it first");
+  const rejoined = OwnedPointer.join([a, b]);
+  const whole = OwnedPointer.join([left, rejoined]);
+  assertEquals(new Uint8Array(whole.transfer()), new Uint8Array([1, 2, 3, 9]));
+});
+
+Deno.test("split offsets must be ascending and within the buffer", () => {
+  const pointer = new OwnedPointer(4);
+  assertThrows(() => pointer.split(3, 1), RangeError);
+  assertThrows(() => pointer.split(5), RangeError);
+  assertEquals(pointer.split(0, 4).map((piece) => piece.getDataView().byteLength), [0, 4, 0]);
+});
+
+Deno.test("splits with a disposed piece cannot be joined", () => {
+  const [head, tail] = new OwnedPointer(4).split(2);
+  tail[Symbol.dispose]();
+  assertThrows(() => OwnedPointer.join([head]), Error, "all pieces of a single split");
+  assertThrows(() => OwnedPointer.join([head, tail]), Error, "disposed");
+  assertThrows(() => OwnedPointer.join([head, head]), Error, "all pieces of a single split");
+});
+
+Deno.test("fromCString encodes a NUL-terminated string", () => {
+  assertEquals(
+    new Uint8Array(OwnedPointer.fromCString("hi").transfer()),
+    new Uint8Array([104, 105, 0]),
+  );
+  assertThrows(() => OwnedPointer.fromCString("a\0b"), TypeError);
+});
@@ -0,0 +1,173 @@
+import { FfiUseAfterFreeError, type RevocationReason } from "./errors.ts";
+import type { NativeBackend } from "./native.ts";
+import type { ForeignCall } from "./signatures.ts";
+import type { FunctionDescription } from "./types.ts";
+
+/**
+ * Whether foreign memory may still be accessed through a pointer. Pointers
+ * read through another one get a child lifetime: revoking a pointer revokes
+ * everything derived from it, but not what it was derived from.
+ */
+export class Lifetime {
+  #parent: Lifetime | null;
+  #owning: boolean;
+  #reason: RevocationReason | null = null;
+
+  /**
+   * `owning` marks the lifetime of a `ForeignOwnedPointer`, whose children
+   * are borrows of the memory it owns.
+   */
+  constructor(parent: Lifetime | null = null, owning = false) {
+    this.#parent = parent;
+    this.#owning = owning;
+  }
+
+  /**
+   * Whether this is the lifetime of a borrow of a `ForeignOwnedPointer`,
+   * which stays responsible for freeing the memory.
+   */
+  get borrowed(): boolean {
+    return this.#parent !== null && this.#parent.#owning;
+  }
+
+  /**
+   * Why this lifetime or one of its ancestors ended, or null if it did not.
+   */
+  get revoked(): RevocationReason | null {
+    return this.#reason ?? this.#parent?.revoked ?? null;
+  }
+
+  revoke(reason: RevocationReason): void {
+    this.#reason ??= reason;
+  }
+
+  /**
+   * Throws an `FfiUseAfterFreeError` if the lifetime was revoked.
+   */
+  assertLive(): void {
+    const reason = this.revoked;
+    if (reason) {
+      throw new FfiUseAfterFreeError(reason);
+    }
+  }
+}
+
+/**
+ * Internal view of a `ForeignPointer`: the backend it came from, its raw
+ * address and its lifetime.
+ */
+export interface RawPointer {
+  backend: NativeBackend;
+  address: bigint;
+  lifetime: Lifetime;
+}
+
+let constructing = false;
+
+let createForeignPointer: (
+  backend: NativeBackend,
+  address: bigint,
+  parent?: Lifetime | null,
+) => ForeignPointer | null;
+let unwrapForeignPointer: (pointer: ForeignPointer) => RawPointer;
+
+/**
+ * Replaces current `UnsafePointer`. Rust wise this is `&T`.
+ *
+ * Instances are only ever created by the shim from values received through
+ * FFI. The address is kept private, there is no way to observe it from JS.
+ *
+ * Passing a pointer to a parameter declared `{ pointer: "consumes" }` or
+ * `{ pointer: "invalidates" }` revokes it, along with every view of it and
+ * every pointer read through those views. Using them afterwards throws an
+ * `FfiUseAfterFreeError`. Other pointers to the same address, eg. returned
+ * by another call, are not affected. Borrows of a `ForeignOwnedPointer` are
+ * rejected by such parameters, as the owner would still free the memory.
+ */
+export class ForeignPointer {
+  #backend!: NativeBackend;
+  #address!: bigint;
+  #lifetime!: Lifetime;
+
+  /**
+   * Throws, manual construction not allowed
+   */
+  constructor() {
+    if (!constructing) {
+      throw new TypeError("Illegal constructor");
+    }
+  }
+
+  static {
+    createForeignPointer = (backend, address, parent = null) => {
+      if (address === 0n) {
+        return null;
+      }
+      constructing = true;
+      try {
+        const pointer = new ForeignPointer();
+        pointer.#backend = backend;
+        pointer.#address = address;
+        pointer.#lifetime = new Lifetime(parent);
+        return pointer;
+      } finally {
+        constructing = false;
+      }
+    };
+    unwrapForeignPointer = (pointer) => {
+      if (!(#address in pointer)) {
+        throw new TypeError("Expected a ForeignPointer");
+      }
+      pointer.#lifetime.assertLive();
+      return { backend: pointer.#backend, address: pointer.#address, lifetime: pointer.#lifetime };
+    };
+  }
+}
+
+let createForeignFunction: <Fn extends FunctionDescription>(
+  call: (...args: unknown[]) => unknown,
+) => ForeignFunction<Fn>;
+
+/**
+ * Replaces current `UnsafeFnPointer`. This is not created from `ForeignPointer`
+ * but is instead automatically returned based on FFI symbol declaration. A
+ * symbol with return value of `{ function: { parameters, result } }` will
+ * return either `null` or `ForeignFunction`.
+ */
+export class ForeignFunction<Fn extends FunctionDescription = FunctionDescription> {
+  #call!: (...args: unknown[]) => unknown;
+
+  /**
+   * Throws, manual construction not allowed
+   */
+  constructor() {
+    if (!constructing) {
+      throw new TypeError("Illegal constructor");
+    }
+  }
+
+  /**
+   * Call method just as presently. Returns a Promise if the function was
+   * described as `nonblocking`.
+   */
+  call(...args: Parameters<ForeignCall<Fn>>): ReturnType<ForeignCall<Fn>> {
+    return this.#call(...args) as ReturnType<ForeignCall<Fn>>;
+  }
+
+  static {
+    createForeignFunction = <Fn extends FunctionDescription>(
+      call: (...args: unknown[]) => unknown,
+    ) => {
+      constructing = true;
+      try {
+        const fn = new ForeignFunction<Fn>();
+        fn.#call = call;
+        return fn;
+      } finally {
+        constructing = false;
+      }
+    };
+  }
+}
+
+export { createForeignFunction, createForeignPointer, unwrapForeignPointer };
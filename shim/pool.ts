@@ -0,0 +1,179 @@
+import { onOwnedPointerConsumed, OwnedPointer } from "./owned_pointer.ts";
+
+export interface OwnedPointerPoolOptions {
+  /**
+   * Bucket sizes in bytes. Requests are served from the smallest bucket that
+   * fits, larger requests are allocated without pooling.
+   */
+  buckets?: number[];
+  /**
+   * Maximum number of free buffers kept per bucket. Defaults to 64.
+   */
+  maxFreePerBucket?: number;
+  /**
+   * Zero out buffers when they are released, so that a lease never sees the
+   * previous lease's data. Defaults to true.
+   */
+  zeroOnRelease?: boolean;
+}
+
+export interface BucketStats {
+  size: number;
+  free: number;
+  hits: number;
+  misses: number;
+}
+
+export interface OwnedPointerPoolStats {
+  /**
+   * Acquisitions served with a previously released buffer.
+   */
+  hits: number;
+  /**
+   * Acquisitions that had to allocate, including oversized ones.
+   */
+  misses: number;
+  /**
+   * Acquisitions larger than the largest bucket.
+   */
+  oversized: number;
+  /**
+   * Leases acquired but not yet released. Leases that were split, joined,
+   * disposed or discarded after a nonblocking call end without giving their
+   * buffer back, and are not outstanding either.
+   */
+  outstanding: number;
+  /**
+   * Leases that were garbage collected without being released.
+   */
+  dropped: number;
+  buckets: BucketStats[];
+}
+
+interface Bucket {
+  size: number;
+  free: ArrayBuffer[];
+  hits: number;
+  misses: number;
+}
+
+const DEFAULT_BUCKETS = [64, 256, 1024, 4096, 16384, 65536];
+
+/**
+ * Pool of size-bucketed `OwnedPointer`s for hot paths that make many
+ * nonblocking calls. Each `new OwnedPointer(n)` allocates a fresh
+ * `ArrayBuffer`; the pool instead hands out recycled ones.
+ *
+ * The pool never holds on to a buffer that JS could reach while a nonblocking
+ * call owns it:
+ *
+ * - Free buffers are only reachable from the pool itself. Acquiring one
+ *   transfers it into a new `OwnedPointer`, leaving nothing behind.
+ * - Releasing goes through `OwnedPointer.transfer()`, which throws while a
+ *   nonblocking call owns the buffer and makes the released `OwnedPointer`
+ *   permanently unusable, detaching any `DataView` taken from it.
+ *
+ * Note that acquired pointers have the bucket's size, which may be larger
+ * than the requested size. Leases are tracked by identity: consuming a
+ * leased pointer any other way, eg. by splitting it, ends its lease without
+ * returning the buffer to the pool.
+ */
+export class OwnedPointerPool {
+  #buckets: Bucket[];
+  #maxFree: number;
+  #zero: boolean;
+  #leases = new WeakMap<OwnedPointer, Bucket | null>();
+  #unreleased = new FinalizationRegistry<void>(() => {
+    this.#outstanding--;
+    this.#dropped++;
+  });
+  #outstanding = 0;
+  #dropped = 0;
+  #oversized = 0;
+
+  constructor(options: OwnedPointerPoolOptions = {}) {
+    const sizes = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+    if (sizes.some((size) => !Number.isInteger(size) || size <= 0)) {
+      throw new RangeError("Bucket sizes must be positive integers");
+    }
+    this.#buckets = sizes.map((size) => ({ size, free: [], hits: 0, misses: 0 }));
+    this.#maxFree = options.maxFreePerBucket ?? 64;
+    this.#zero = options.zeroOnRelease ?? true;
+  }
+
+  /**
+   * Leases an `OwnedPointer` of at least `byteLength` bytes.
+   */
+  acquire(byteLength: number): OwnedPointer {
+    const bucket = this.#buckets.find((bucket) => bucket.size >= byteLength) ?? null;
+    let pointer: OwnedPointer;
+    if (!bucket) {
+      this.#oversized++;
+      pointer = new OwnedPointer(byteLength);
+    } else {
+      const buffer = bucket.free.pop();
+      if (buffer) {
+        bucket.hits++;
+        pointer = new OwnedPointer(buffer);
+      } else {
+        bucket.misses++;
+        pointer = new OwnedPointer(bucket.size);
+      }
+    }
+    this.#leases.set(pointer, bucket);
+    this.#unreleased.register(pointer, undefined, pointer);
+    this.#outstanding++;
+    onOwnedPointerConsumed(pointer, () => this.#end(pointer));
+    return pointer;
+  }
+
+  #end(pointer: OwnedPointer): void {
+    this.#leases.delete(pointer);
+    this.#unreleased.unregister(pointer);
+    this.#outstanding--;
+  }
+
+  /**
+   * Returns a leased `OwnedPointer` to the pool. The pointer becomes
+   * unusable. Throws if the pointer is not an outstanding lease of this pool
+   * or if a nonblocking call currently owns its buffer.
+   */
+  release(pointer: OwnedPointer): void {
+    if (!this.#leases.has(pointer)) {
+      throw new Error("OwnedPointer is not an outstanding lease of this pool");
+    }
+    const bucket = this.#leases.get(pointer)!;
+    // Throws while lent out, in which case the lease stays outstanding.
+    // Otherwise this ends the lease.
+    const buffer = pointer.transfer();
+    if (!bucket || bucket.free.length >= this.#maxFree) {
+      return;
+    }
+    if (this.#zero) {
+      new Uint8Array(buffer).fill(0);
+    }
+    bucket.free.push(buffer);
+  }
+
+  stats(): OwnedPointerPoolStats {
+    let hits = 0;
+    let misses = this.#oversized;
+    for (const bucket of this.#buckets) {
+      hits += bucket.hits;
+      misses += bucket.misses;
+    }
+    return {
+      hits,
+      misses,
+      oversized: this.#oversized,
+      outstanding: this.#outstanding,
+      dropped: this.#dropped,
+      buckets: this.#buckets.map(({ size, free, hits, misses }) => ({
+        size,
+        free: free.length,
+        hits,
+        misses,
+      })),
+    };
+  }
+}
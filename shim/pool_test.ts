@@ -0,0 +1,92 @@
+import { assertEquals, assertRejects, assertThrows } from "jsr:@std/assert@1";
+import { mockDlopen } from "./mock.ts";
+import { OwnedPointer, OwnedPointerPool } from "./mod.ts";
+
+/**
+ * A library whose nonblocking `hold` calls only settle once released, oldest
+ * first.
+ */
+function holdingLibrary() {
+  const held: (() => void)[] = [];
+  const lib = mockDlopen({
+    hold: { parameters: ["pointer"], result: "void", nonblocking: true },
+  }, {
+    hold: () => new Promise<void>((resolve) => held.push(resolve)),
+  });
+  const settle = async () => {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    held.shift()?.();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  };
+  return { lib, settle };
+}
+
+Deno.test("released buffers are reused, zeroed, by later leases", () => {
+  const pool = new OwnedPointerPool({ buckets: [16, 64] });
+  const first = pool.acquire(10);
+  assertEquals(first.getDataView().byteLength, 16);
+  first.getDataView().setUint8(0, 42);
+  pool.release(first);
+  assertThrows(() => first.getDataView(), Error, "detached buffer");
+  const second = pool.acquire(16);
+  assertEquals(second.getDataView().getUint8(0), 0);
+  assertEquals(pool.acquire(100).getDataView().byteLength, 100);
+  const stats = pool.stats();
+  assertEquals(stats.hits, 1);
+  assertEquals(stats.misses, 2);
+  assertEquals(stats.oversized, 1);
+  assertEquals(stats.outstanding, 2);
+  assertEquals(stats.buckets, [
+    { size: 16, free: 0, hits: 1, misses: 1 },
+    { size: 64, free: 0, hits: 0, misses: 0 },
+  ]);
+});
+
+Deno.test("buckets keep at most maxFreePerBucket free buffers", () => {
+  const pool = new OwnedPointerPool({ buckets: [8], maxFreePerBucket: 1 });
+  const leases = [pool.acquire(8), pool.acquire(8)];
+  leases.forEach((lease) => pool.release(lease));
+  assertEquals(pool.stats().buckets, [{ size: 8, free: 1, hits: 0, misses: 2 }]);
+  assertEquals(pool.stats().outstanding, 0);
+});
+
+Deno.test("only outstanding leases can be released", () => {
+  const pool = new OwnedPointerPool();
+  assertThrows(() => pool.release(new OwnedPointer(8)), Error, "not an outstanding lease");
+  const lease = pool.acquire(8);
+  pool.release(lease);
+  assertThrows(() => pool.release(lease), Error, "not an outstanding lease");
+  assertThrows(() => new OwnedPointerPool({ buckets: [0] }), RangeError);
+});
+
+Deno.test("releasing a lent pointer throws and keeps its lease", async () => {
+  const { lib, settle } = holdingLibrary();
+  const pool = new OwnedPointerPool();
+  const lease = pool.acquire(8);
+  const call = lib.symbols.hold(lease);
+  assertThrows(() => pool.release(lease), Error, "owned by a nonblocking call");
+  assertEquals(pool.stats().outstanding, 1);
+  await settle();
+  await call;
+  pool.release(lease);
+  assertEquals(pool.stats().outstanding, 0);
+});
+
+Deno.test("split, joined, disposed and discarded leases are no longer outstanding", async () => {
+  const { lib, settle } = holdingLibrary();
+  const pool = new OwnedPointerPool();
+  const pieces = pool.acquire(8).split(4);
+  assertEquals(pool.stats().outstanding, 0);
+  OwnedPointer.join(pieces);
+  pool.acquire(8)[Symbol.dispose]();
+  assertEquals(pool.stats().outstanding, 0);
+  const controller = new AbortController();
+  const lease = pool.acquire(8);
+  const call = lib.symbols.hold(lease, { signal: controller.signal });
+  controller.abort(new Error("gone"));
+  await assertRejects(() => call, Error, "gone");
+  assertEquals(pool.stats().outstanding, 1);
+  await settle();
+  assertEquals(pool.stats().outstanding, 0);
+  assertThrows(() => pool.release(lease), Error, "not an outstanding lease");
+});
@@ -0,0 +1,94 @@
+/**
+ * Entry point of the workers of a `WorkerPoolCallback`. Each worker loads
+ * the callback module, then consumes the shared ring alongside the other
+ * workers of the pool.
+ */
+
+import { denoBackend } from "./deno_backend.ts";
+import { CallbackDispatcher } from "./dispatcher.ts";
+import { createTrampoline } from "./marshal.ts";
+import type { NativeBackend } from "./native.ts";
+import type { StoredFunctionDescription } from "./types.ts";
+
+export interface PoolWorkerInit {
+  ring: SharedArrayBuffer;
+  description: StoredFunctionDescription;
+  module: string;
+  shared: SharedArrayBuffer | undefined;
+  index: number;
+  /**
+   * Kind of backend the callback is created for, so that the worker reads
+   * arguments through the same kind of backend.
+   */
+  backend: NativeBackend["kind"];
+}
+
+export type PoolWorkerMessage = { type: "ready" } | { type: "error"; error: unknown };
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<PoolWorkerInit>) => void) | null;
+  postMessage(message: PoolWorkerMessage): void;
+}
+
+const scope = globalThis as unknown as WorkerScope;
+
+/**
+ * Turns the `ReferenceError` of a callback looking for main-thread state
+ * into an explanation, and reports it to the main thread.
+ */
+function explainCaptures(
+  module: string,
+  fn: (...args: unknown[]) => unknown,
+): (...args: unknown[]) => unknown {
+  return (...args) => {
+    try {
+      return fn(...args);
+    } catch (error) {
+      if (!(error instanceof ReferenceError)) {
+        throw error;
+      }
+      const explained = new ReferenceError(
+        `Worker pool callback from ${module} failed: ${error.message}. The callback runs ` +
+          "in a worker, which cannot see variables of the main thread. Pass shared state " +
+          "through the pool's SharedArrayBuffer instead",
+        { cause: error },
+      );
+      scope.postMessage({ type: "error", error: explained });
+      throw explained;
+    }
+  };
+}
+
+/**
+ * Sets up the backend the worker lifts arguments with. A mock heap lives in
+ * the main thread, so the worker gets an empty one of its own: pointers
+ * passed to the callback fault there instead of being dereferenced as real
+ * addresses.
+ */
+async function workerBackend(kind: NativeBackend["kind"]): Promise<NativeBackend> {
+  if (kind === "mock") {
+    const { MockHeap } = await import("./mock.ts");
+    return new MockHeap();
+  }
+  return denoBackend;
+}
+
+scope.onmessage = async ({ data }) => {
+  scope.onmessage = null;
+  try {
+    const exports = await import(data.module);
+    if (typeof exports.default !== "function") {
+      throw new TypeError(`Worker pool callback module ${data.module} has no default export`);
+    }
+    await exports.setup?.(data.shared, data.index);
+    const backend = await workerBackend(data.backend);
+    new CallbackDispatcher(
+      data.description,
+      createTrampoline(backend, data.description, explainCaptures(data.module, exports.default)),
+      { buffer: data.ring },
+    );
+    scope.postMessage({ type: "ready" });
+  } catch (error) {
+    scope.postMessage({ type: "error", error });
+  }
+};
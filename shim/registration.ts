@@ -0,0 +1,66 @@
+import type { StoredCallback } from "./stored_callback.ts";
+
+/**
+ * A `StoredCallback` registered with a native library through a pair of
+ * register and clear symbols, such as `register_queue_callback` and
+ * `clear_queue_callback` in `storable-callbacks/created.ts`.
+ *
+ * The registration takes ownership of the callback. Disposing it first calls
+ * the clear symbol and only then deletes the callback, so the native side
+ * never holds on to a deleted callback:
+ *
+ * ```ts
+ * {
+ *   using registration = new CallbackRegistration(
+ *     lib.symbols.register_queue_callback,
+ *     lib.symbols.clear_queue_callback,
+ *     new StoredCallback({ parameters: ["pointer"], result: "u8" }, onItem),
+ *   );
+ *   lib.symbols.drain_queue();
+ * } // clear_queue_callback(), then callback.delete(), even if drain_queue throws.
+ * ```
+ */
+export class CallbackRegistration<R = unknown, C extends StoredCallback = StoredCallback> {
+  /**
+   * Return value of the register symbol.
+   */
+  readonly result: R;
+  readonly callback: C;
+  #clear: () => unknown;
+  #disposed = false;
+
+  /**
+   * Calls `register` with the callback. If registering throws, the callback
+   * is deleted right away.
+   */
+  constructor(
+    register: (callback: C) => R,
+    clear: () => unknown,
+    callback: C,
+  ) {
+    try {
+      this.result = register(callback);
+    } catch (error) {
+      callback[Symbol.dispose]();
+      throw error;
+    }
+    this.callback = callback;
+    this.#clear = clear;
+  }
+
+  /**
+   * Clears the registration and deletes the callback. Does nothing if the
+   * registration was already disposed.
+   *
+   * If the clear symbol throws, the callback is not deleted: the native side
+   * may still call it, and leaking it is the lesser evil.
+   */
+  [Symbol.dispose](): void {
+    if (this.#disposed) {
+      return;
+    }
+    this.#disposed = true;
+    this.#clear();
+    this.callback[Symbol.dispose]();
+  }
+}
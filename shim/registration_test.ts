@@ -0,0 +1,85 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert@1";
+import { mockDlopen } from "./mock.ts";
+import { CallbackRegistration, StoredCallback } from "./mod.ts";
+
+const OnItem = { parameters: ["u32"], result: "void" } as const;
+
+/**
+ * A StoredCallback that logs its deletion.
+ */
+class LoggedCallback extends StoredCallback<typeof OnItem> {
+  constructor(readonly log: string[]) {
+    super(OnItem, () => {});
+  }
+
+  override delete(): void {
+    this.log.push("delete");
+    super.delete();
+  }
+}
+
+function queueLibrary(log: string[], failRegister = false) {
+  return mockDlopen({
+    register_queue_callback: { parameters: [{ function: OnItem }], result: "void" },
+    clear_queue_callback: { parameters: [], result: "void" },
+  }, {
+    register_queue_callback() {
+      log.push("register");
+      if (failRegister) {
+        throw new Error("queue is full");
+      }
+    },
+    clear_queue_callback() {
+      log.push("clear");
+    },
+  });
+}
+
+Deno.test("registrations clear before deleting their callback", () => {
+  const log: string[] = [];
+  const lib = queueLibrary(log);
+  {
+    using _registration = new CallbackRegistration(
+      lib.symbols.register_queue_callback,
+      lib.symbols.clear_queue_callback,
+      new LoggedCallback(log),
+    );
+  }
+  assertEquals(log, ["register", "clear", "delete"]);
+});
+
+Deno.test("registrations clear and delete when their scope throws", () => {
+  const log: string[] = [];
+  const lib = queueLibrary(log);
+  const callback = new LoggedCallback(log);
+  assertThrows(
+    () => {
+      using _registration = new CallbackRegistration(
+        lib.symbols.register_queue_callback,
+        lib.symbols.clear_queue_callback,
+        callback,
+      );
+      throw new Error("drain failed");
+    },
+    Error,
+    "drain failed",
+  );
+  assertEquals(log, ["register", "clear", "delete"]);
+  assertThrows(() => callback.delete(), Error, "already been deleted");
+});
+
+Deno.test("callbacks that fail to register are deleted right away", () => {
+  const log: string[] = [];
+  const lib = queueLibrary(log, true);
+  assertThrows(
+    () =>
+      new CallbackRegistration(
+        lib.symbols.register_queue_callback,
+        lib.symbols.clear_queue_callback,
+        new LoggedCallback(log),
+      ),
+    Error,
+    "queue is full",
+  );
+  assertEquals(log, ["register", "delete"]);
+});
@@ -0,0 +1,139 @@
+import type { ReplyOptions } from "./types.ts";
+
+type ReplyState = "open" | "answered" | "expired";
+
+let constructing = false;
+
+/**
+ * Calls a reply-mode callback. Returns the lowered answer right away if the
+ * callback replied synchronously, otherwise a promise for it.
+ */
+let awaitReply: (
+  options: ReplyOptions,
+  lower: (value: unknown) => unknown,
+  call: (handle: ReplyHandle) => unknown,
+) => unknown;
+
+/**
+ * Answers with the default value for handles dropped without a reply.
+ */
+const unanswered = new FinalizationRegistry<() => void>((answerDefault) => answerDefault());
+
+/**
+ * One-shot handle for answering a thread-safe callback asynchronously, see
+ * `ReplyOptions`. Unlike an `async` callback's promise, a reply cannot
+ * happen more than once, and the foreign thread waiting for it is never left
+ * blocked forever: it gets the default answer if the handle times out or is
+ * garbage collected first.
+ */
+export class ReplyHandle<T = unknown> {
+  #state!: { current: ReplyState };
+  #answer!: (value: T) => void;
+
+  /**
+   * Throws, manual construction not allowed
+   */
+  constructor() {
+    if (!constructing) {
+      throw new TypeError("Illegal constructor");
+    }
+  }
+
+  /**
+   * False until the callback has been answered, by `reply()` or otherwise.
+   */
+  get settled(): boolean {
+    return this.#state.current !== "open";
+  }
+
+  /**
+   * Answers the callback. Throws if it was already answered or timed out.
+   */
+  reply(value: T): void {
+    if (this.#state.current === "answered") {
+      throw new Error("Reply handle has already been used");
+    }
+    if (this.#state.current === "expired") {
+      throw new Error("Reply handle has timed out");
+    }
+    this.#answer(value);
+  }
+
+  static {
+    awaitReply = (options, lower, call) => {
+      // Nothing here may reference the handle, or it could never be collected.
+      const state = { current: "open" as ReplyState };
+      let outcome: { value: unknown } | { error: unknown } | undefined;
+      let resolve: ((value: unknown) => void) | undefined;
+      let reject: ((error: unknown) => void) | undefined;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const settle = (settled: { value: unknown } | { error: unknown }) => {
+        if (outcome) {
+          return;
+        }
+        outcome = settled;
+        clearTimeout(timer);
+        unanswered.unregister(state);
+        if ("error" in settled) {
+          reject?.(settled.error);
+        } else {
+          resolve?.(settled.value);
+        }
+      };
+      const answerDefault = () => {
+        try {
+          settle({ value: lower(options.default) });
+        } catch (error) {
+          settle({ error });
+        }
+      };
+
+      constructing = true;
+      let handle: ReplyHandle;
+      try {
+        handle = new ReplyHandle();
+      } finally {
+        constructing = false;
+      }
+      handle.#state = state;
+      handle.#answer = (value) => {
+        // Lowering throws for invalid answers, leaving the handle usable.
+        const lowered = lower(value);
+        state.current = "answered";
+        settle({ value: lowered });
+      };
+      unanswered.register(handle, answerDefault, state);
+
+      try {
+        const returned = call(handle) as PromiseLike<unknown> | undefined;
+        if (typeof returned?.then === "function") {
+          returned.then(undefined, (error) => {
+            state.current = "answered";
+            settle({ error });
+          });
+        }
+      } catch (error) {
+        state.current = "answered";
+        settle({ error });
+      }
+      if (outcome) {
+        if ("error" in outcome) {
+          throw outcome.error;
+        }
+        return outcome.value;
+      }
+      if (options.timeout !== undefined) {
+        timer = setTimeout(() => {
+          state.current = "expired";
+          answerDefault();
+        }, options.timeout);
+      }
+      return new Promise((resolvePromise, rejectPromise) => {
+        resolve = resolvePromise;
+        reject = rejectPromise;
+      });
+    };
+  }
+}
+
+export { awaitReply };
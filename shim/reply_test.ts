@@ -0,0 +1,69 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert@1";
+import { mockDlopen } from "./mock.ts";
+import { ReplyHandle, StoredCallback } from "./mod.ts";
+
+const Lookup = { parameters: ["u32"], result: "u32", threadSafe: true } as const;
+
+/**
+ * A library that calls the registered callback from a foreign thread.
+ */
+function lookupLibrary() {
+  let address = 0n;
+  const lib = mockDlopen({
+    register: {
+      parameters: [{ function: { parameters: ["u32"], result: "u32" } }],
+      result: "void",
+    },
+  }, {
+    register(callback: bigint) {
+      address = callback;
+    },
+  });
+  return { lib, call: (key: number) => lib.heap.callFromForeignThread(address, key) };
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+Deno.test("reply handles answer the foreign thread once", async () => {
+  const { lib, call } = lookupLibrary();
+  const handles: ReplyHandle<number>[] = [];
+  using callback = new StoredCallback({ ...Lookup, reply: {} }, (reply, key) => {
+    handles.push(reply);
+    setTimeout(() => reply.reply(key * 2), 5);
+  });
+  lib.symbols.register(callback);
+  assertEquals(await call(21), 42);
+  assertEquals(handles[0].settled, true);
+  assertThrows(() => handles[0].reply(1), Error, "already been used");
+  assertThrows(() => new ReplyHandle(), TypeError, "Illegal constructor");
+});
+
+Deno.test("reply handles answer with the default once they time out", async () => {
+  const { lib, call } = lookupLibrary();
+  const handles: ReplyHandle<number>[] = [];
+  using callback = new StoredCallback(
+    { ...Lookup, reply: { timeout: 5, default: 404 } },
+    (reply) => {
+      handles.push(reply);
+    },
+  );
+  lib.symbols.register(callback);
+  assertEquals(await call(1), 404);
+  assertEquals(handles[0].settled, true);
+  assertThrows(() => handles[0].reply(1), Error, "timed out");
+});
+
+Deno.test("replies before the timeout win over the default", async () => {
+  const { lib, call } = lookupLibrary();
+  using callback = new StoredCallback(
+    { ...Lookup, reply: { timeout: 50, default: 404 } },
+    (reply, key) => {
+      sleep(5).then(() => reply.reply(key));
+    },
+  );
+  lib.symbols.register(callback);
+  // The test sanitizer fails the test if the timeout is left pending.
+  assertEquals(await call(7), 7);
+});
@@ -0,0 +1,185 @@
+/**
+ * Scheduling of nonblocking calls according to declared thread-safety
+ * policies. Deno cannot know whether a library is safe to call from several
+ * threads at once (see the README), so the library author declares it and
+ * the scheduler enforces it instead of hand-written mutex promise chains.
+ */
+
+import type { LibraryOptions, SymbolDefinition, ThreadSafety } from "./types.ts";
+
+/**
+ * Decides when calls to a single symbol may run.
+ */
+export interface CallGate {
+  /**
+   * Runs a nonblocking call once its locks and a concurrency slot are free.
+   * Aborting the signal while the call is still queued drops it from the
+   * queue and rejects with the signal's reason.
+   */
+  nonblocking(run: () => unknown, signal?: AbortSignal): Promise<unknown>;
+  /**
+   * Runs a synchronous call right away, holding its locks until it returns
+   * so that nonblocking calls started meanwhile, eg. by a callback, queue
+   * behind it. Synchronous calls cannot wait without blocking the event
+   * loop, so this throws if a conflicting nonblocking call is in flight.
+   */
+  blocking<T>(run: () => T): T;
+}
+
+interface Pending {
+  locks: readonly string[];
+  start(): void;
+}
+
+export class CallScheduler {
+  #maxConcurrency: number;
+  #running = 0;
+  /**
+   * Locks held by nonblocking calls in flight.
+   */
+  #held = new Set<string>();
+  /**
+   * Locks held by synchronous calls on the stack, counted as these nest
+   * when callbacks call back into the library.
+   */
+  #blocking = new Map<string, number>();
+  #queue: Pending[] = [];
+
+  constructor(maxConcurrency = Infinity) {
+    if (!(maxConcurrency >= 1)) {
+      throw new RangeError("maxConcurrency must be at least 1");
+    }
+    this.#maxConcurrency = maxConcurrency;
+  }
+
+  #canStart(locks: readonly string[]): boolean {
+    return this.#running < this.#maxConcurrency &&
+      locks.every((lock) => !this.#held.has(lock) && !this.#blocking.has(lock));
+  }
+
+  #drain(): void {
+    // First fit in queue order: a call waiting on a busy lock does not hold
+    // up unrelated calls behind it.
+    for (let index = 0; index < this.#queue.length;) {
+      const pending = this.#queue[index];
+      if (this.#canStart(pending.locks)) {
+        this.#queue.splice(index, 1);
+        pending.start();
+      } else {
+        index++;
+      }
+    }
+  }
+
+  #acquire(locks: readonly string[]): () => void {
+    this.#running++;
+    for (const lock of locks) {
+      this.#held.add(lock);
+    }
+    return () => {
+      this.#running--;
+      for (const lock of locks) {
+        this.#held.delete(lock);
+      }
+      this.#drain();
+    };
+  }
+
+  #acquireBlocking(locks: readonly string[]): () => void {
+    for (const lock of locks) {
+      this.#blocking.set(lock, (this.#blocking.get(lock) ?? 0) + 1);
+    }
+    return () => {
+      for (const lock of locks) {
+        const count = this.#blocking.get(lock)! - 1;
+        if (count === 0) {
+          this.#blocking.delete(lock);
+        } else {
+          this.#blocking.set(lock, count);
+        }
+      }
+      this.#drain();
+    };
+  }
+
+  /**
+   * Creates the gate for calls that take the given locks.
+   */
+  gate(name: string, locks: readonly string[]): CallGate {
+    return {
+      nonblocking: (run, signal) =>
+        new Promise((resolve, reject) => {
+          const pending: Pending = {
+            locks,
+            start: () => {
+              signal?.removeEventListener("abort", onAbort);
+              const release = this.#acquire(locks);
+              let result: Promise<unknown>;
+              try {
+                result = Promise.resolve(run());
+              } catch (error) {
+                result = Promise.reject(error);
+              }
+              result.finally(release).then(resolve, reject);
+            },
+          };
+          const onAbort = () => {
+            this.#queue.splice(this.#queue.indexOf(pending), 1);
+            reject(signal!.reason);
+          };
+          if (this.#canStart(locks)) {
+            pending.start();
+          } else {
+            signal?.addEventListener("abort", onAbort, { once: true });
+            this.#queue.push(pending);
+          }
+        }),
+      blocking: (run) => {
+        if (locks.some((lock) => this.#held.has(lock))) {
+          throw new Error(
+            `Cannot call "${name}" synchronously while a conflicting nonblocking call is in flight`,
+          );
+        }
+        const release = this.#acquireBlocking(locks);
+        try {
+          return run();
+        } finally {
+          release();
+        }
+      },
+    };
+  }
+}
+
+function lockOf(policy: ThreadSafety | undefined, serialized: string): string[] {
+  if (policy === "serialized") {
+    return [serialized];
+  }
+  if (typeof policy === "object") {
+    return [`group:${policy.exclusiveWith}`];
+  }
+  return [];
+}
+
+/**
+ * Resolves the locks a symbol's calls take. The library's policy always
+ * applies: a `"serialized"` library serializes all of its calls, whatever
+ * their symbols declare. A symbol's own `"serialized"` policy or group adds
+ * its lock on top.
+ */
+export function locksFor(
+  key: string,
+  definition: SymbolDefinition,
+  options: LibraryOptions,
+): string[] {
+  const policy: ThreadSafety = definition.threadSafety ?? options.threadSafety ??
+    "concurrent";
+  if (policy === "event-loop-only" && definition.nonblocking) {
+    throw new TypeError(`Symbol "${key}" is event-loop-only and cannot be nonblocking`);
+  }
+  const locks = [
+    ...lockOf(options.threadSafety, "library"),
+    ...lockOf(definition.threadSafety, `symbol:${key}`),
+  ];
+  return [...new Set(locks)];
+}
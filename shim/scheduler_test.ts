@@ -0,0 +1,170 @@
+import { assertEquals, assertRejects, assertThrows } from "jsr:@std/assert@1";
+import { mockDlopen } from "./mock.ts";
+import type { MockDlopenOptions } from "./mock.ts";
+import { CallScheduler, locksFor } from "./scheduler.ts";
+import type { LibraryDefinition } from "./types.ts";
+
+/**
+ * A library whose nonblocking calls log when they start and end, and only
+ * end once released.
+ */
+function tracingLibrary<const S extends LibraryDefinition>(
+  definition: S,
+  options: MockDlopenOptions = {},
+) {
+  const log: string[] = [];
+  const running: (() => void)[] = [];
+  const implementations = Object.fromEntries(
+    Object.keys(definition).map((key) => [
+      key,
+      () =>
+        new Promise<void>((resolve) => {
+          log.push(`start ${key}`);
+          running.push(() => {
+            log.push(`end ${key}`);
+            resolve();
+          });
+        }),
+    ]),
+  );
+  const lib = mockDlopen(definition, implementations as never, options);
+  // Lets the queued calls start, then ends the oldest running one.
+  const step = async () => {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    running.shift()?.();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  };
+  return { lib, log, step };
+}
+
+Deno.test("serialized symbols queue behind their own calls only", async () => {
+  const { lib, log, step } = tracingLibrary({
+    a: { parameters: [], result: "void", nonblocking: true, threadSafety: "serialized" },
+    b: { parameters: [], result: "void", nonblocking: true },
+  });
+  const calls = [lib.symbols.a(), lib.symbols.a(), lib.symbols.b()];
+  await step();
+  await step();
+  await step();
+  await Promise.all(calls);
+  assertEquals(log, ["start a", "start b", "end a", "start a", "end b", "end a"]);
+});
+
+Deno.test("exclusive groups keep their symbols from overlapping", async () => {
+  const group = { exclusiveWith: "io" };
+  const { lib, log, step } = tracingLibrary({
+    read: { parameters: [], result: "void", nonblocking: true, threadSafety: group },
+    write: { parameters: [], result: "void", nonblocking: true, threadSafety: group },
+  });
+  const calls = [lib.symbols.read(), lib.symbols.write()];
+  await step();
+  await step();
+  await Promise.all(calls);
+  assertEquals(log, ["start read", "end read", "start write", "end write"]);
+});
+
+Deno.test("maxConcurrency bounds the calls in flight", async () => {
+  const { lib, log, step } = tracingLibrary({
+    work: { parameters: [], result: "void", nonblocking: true },
+  }, { maxConcurrency: 2 });
+  const calls = [lib.symbols.work(), lib.symbols.work(), lib.symbols.work()];
+  await step();
+  assertEquals(log, ["start work", "start work", "end work", "start work"]);
+  await step();
+  await step();
+  await Promise.all(calls);
+});
+
+Deno.test("aborting a queued call drops it from the queue", async () => {
+  const { lib, log, step } = tracingLibrary({
+    a: { parameters: [], result: "void", nonblocking: true },
+  }, { threadSafety: "serialized" });
+  const controller = new AbortController();
+  const first = lib.symbols.a();
+  const second = lib.symbols.a({ signal: controller.signal });
+  controller.abort(new Error("dropped"));
+  await assertRejects(() => second, Error, "dropped");
+  await step();
+  await first;
+  assertEquals(log, ["start a", "end a"]);
+});
+
+Deno.test("synchronous calls throw while a conflicting call is in flight", async () => {
+  let release = () => {};
+  const lib = mockDlopen({
+    slow: { parameters: [], result: "void", nonblocking: true },
+    fast: { parameters: [], result: "void" },
+  }, {
+    slow: () => new Promise<void>((resolve) => release = resolve),
+    fast() {},
+  }, { threadSafety: "serialized" });
+  const slow = lib.symbols.slow();
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  assertThrows(() => lib.symbols.fast(), Error, "conflicting nonblocking call");
+  release();
+  await slow;
+  lib.symbols.fast();
+});
+
+Deno.test("nonblocking calls queue behind synchronous calls holding their lock", async () => {
+  const log: string[] = [];
+  const calls: Promise<void>[] = [];
+  let callInner = () => {};
+  const lib = mockDlopen({
+    outer: { parameters: [], result: "void" },
+    inner: { parameters: [], result: "void", nonblocking: true },
+  }, {
+    outer() {
+      log.push("start outer");
+      callInner();
+      log.push("end outer");
+    },
+    inner() {
+      log.push("inner");
+    },
+  }, { threadSafety: "serialized" });
+  callInner = () => calls.push(lib.symbols.inner());
+  lib.symbols.outer();
+  await Promise.all(calls);
+  assertEquals(log, ["start outer", "end outer", "inner"]);
+});
+
+Deno.test("serialized libraries serialize symbols with their own policy", async () => {
+  const { lib, log, step } = tracingLibrary({
+    a: { parameters: [], result: "void", nonblocking: true, threadSafety: "serialized" },
+    b: { parameters: [], result: "void", nonblocking: true, threadSafety: "concurrent" },
+  }, { threadSafety: "serialized" });
+  const calls = [lib.symbols.a(), lib.symbols.b()];
+  await step();
+  await step();
+  await Promise.all(calls);
+  assertEquals(log, ["start a", "end a", "start b", "end b"]);
+});
+
+Deno.test("locksFor takes the library's lock and the symbol's", () => {
+  const nonblocking = { parameters: [], result: "void", nonblocking: true } as const;
+  const serialized = { threadSafety: "serialized" } as const;
+  assertEquals(locksFor("a", nonblocking, {}), []);
+  assertEquals(locksFor("a", nonblocking, serialized), ["library"]);
+  assertEquals(locksFor("a", { ...nonblocking, ...serialized }, {}), ["symbol:a"]);
+  assertEquals(locksFor("a", { ...nonblocking, ...serialized }, serialized), [
+    "library",
+    "symbol:a",
+  ]);
+  assertEquals(
+    locksFor("a", { ...nonblocking, threadSafety: { exclusiveWith: "x" } }, {}),
+    ["group:x"],
+  );
+  assertEquals(
+    locksFor("a", { ...nonblocking, threadSafety: { exclusiveWith: "x" } }, {
+      threadSafety: { exclusiveWith: "x" },
+    }),
+    ["group:x"],
+  );
+  assertThrows(
+    () => locksFor("a", nonblocking, { threadSafety: "event-loop-only" }),
+    TypeError,
+    "event-loop-only",
+  );
+  assertThrows(() => new CallScheduler(0), RangeError);
+});
@@ -0,0 +1,227 @@
+/**
+ * Callable types derived from symbol definitions, so that calling a symbol
+ * needs no casts like `as unknown as (pointer: OwnedPointer) => Promise<number>`:
+ *
+ * ```ts
+ * const lib = dlopen("lib.so", {
+ *   nonblocking_ffi_call: { parameters: ["pointer"], result: "u8", nonblocking: true },
+ *   get_callback: { parameters: [], result: { function: { parameters: [], result: "void" } } },
+ * });
+ * // (pointer: OwnedPointer, options?: CallOptions) => Promise<number>
+ * lib.symbols.nonblocking_ffi_call;
+ * // () => ForeignFunction<{ parameters: []; result: "void" }> | null
+ * lib.symbols.get_callback;
+ * ```
+ *
+ * Definitions need to keep their literal types for this, which `dlopen`
+ * takes care of for definitions written inline. Definitions declared
+ * elsewhere should be declared `as const`.
+ */
+
+import type { ForeignOwnedPointer } from "./foreign_owned_pointer.ts";
+import type { OwnedPointer } from "./owned_pointer.ts";
+import type { ForeignFunction, ForeignPointer } from "./pointer.ts";
+import type { ReplyHandle } from "./reply.ts";
+import type { StoredCallback } from "./stored_callback.ts";
+import type {
+  FieldType,
+  FieldValue,
+  StructAccessor,
+  StructLayout,
+  StructReader,
+} from "./struct.ts";
+import type {
+  CallOptions,
+  CStringType,
+  FunctionDescription,
+  FunctionType,
+  LibraryDefinition,
+  NativeType,
+  OutParameterType,
+  OwningPointerType,
+  ParameterType,
+  ReplyOptions,
+  ResultType,
+  RevokingPointerType,
+  StoredFunctionDescription,
+} from "./types.ts";
+
+type BigIntType = "u64" | "i64" | "usize" | "isize";
+
+/**
+ * Typed arrays, which synchronous calls take for pointer parameters. Deno's
+ * type declarations have no name for them.
+ */
+export type TypedArray =
+  | Int8Array
+  | Uint8Array
+  | Uint8ClampedArray
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array
+  | Float32Array
+  | Float64Array
+  | BigInt64Array
+  | BigUint64Array;
+
+/**
+ * Value accepted for a parameter. Nonblocking calls run on another thread,
+ * so they only take `OwnedPointer`s for pointers, and only thread-safe
+ * `StoredCallback`s for callbacks. Revoking pointer parameters only take
+ * foreign memory. C strings are taken as JS strings or encoded pointers.
+ */
+export type ParameterValue<T extends ParameterType, Nonblocking extends boolean = false> =
+  T extends BigIntType ? number | bigint
+    : T extends "pointer"
+      ? Nonblocking extends true ? OwnedPointer
+      : TypedArray | OwnedPointer | ForeignPointer | ForeignOwnedPointer | null
+    : T extends RevokingPointerType ? Nonblocking extends true ? never
+      : ForeignPointer | ForeignOwnedPointer | null
+    : T extends CStringType ? Nonblocking extends true ? string | OwnedPointer | null
+      : string | OwnedPointer | ForeignPointer | ForeignOwnedPointer | null
+    : T extends NativeType ? number
+    : T extends FunctionType
+      ? Nonblocking extends true ? StoredCallback<T["function"] & { threadSafe: true }> | null
+      : StoredCallback<T["function"]> | null
+    : T extends { struct: StructLayout<infer F> } ? StructAccessor<F>
+    : never;
+
+/**
+ * Values accepted for a parameter list, as a tuple.
+ */
+export type ParameterValues<
+  P extends readonly ParameterType[],
+  Nonblocking extends boolean = false,
+> = {
+  -readonly [I in keyof P]: P[I] extends ParameterType ? ParameterValue<P[I], Nonblocking>
+    : never;
+};
+
+/**
+ * The parameters a caller passes, ie. all but out-parameters. Parameter
+ * lists that are not tuples are kept as they are.
+ */
+export type InputParameters<P extends readonly ParameterType[]> = P extends
+  readonly [infer H extends ParameterType, ...infer T extends readonly ParameterType[]]
+  ? H extends OutParameterType ? InputParameters<T> : [H, ...InputParameters<T>]
+  : P;
+
+/**
+ * Decoded values of a parameter list's out-parameters, as a tuple.
+ */
+export type OutValues<P extends readonly ParameterType[]> = P extends
+  readonly [infer H extends ParameterType, ...infer T extends readonly ParameterType[]]
+  ? H extends { out: infer O }
+    ? [O extends FieldType ? FieldValue<O> : Uint8Array, ...OutValues<T>]
+  : OutValues<T>
+  : P extends readonly [] ? []
+  : unknown[];
+
+/**
+ * Value a call returns, before it is wrapped in a promise for nonblocking
+ * calls.
+ */
+export type ResultValue<T extends ResultType> = T extends "void" ? void
+  : T extends BigIntType ? number | bigint
+  : T extends "pointer" ? ForeignPointer | null
+  : T extends NativeType ? number
+  : T extends FunctionType ? ForeignFunction<T["function"]> | null
+  : T extends OwningPointerType ? ForeignOwnedPointer | null
+  : T extends CStringType ? string | null
+  : T extends { struct: StructLayout<infer F> } ? StructReader<F>
+  : never;
+
+/**
+ * What a call returns: its result, or the result along with its
+ * out-parameters' values for functions that have any. Parameter lists that
+ * are not tuples are assumed to have none.
+ */
+export type CallValue<D extends FunctionDescription> =
+  number extends D["parameters"]["length"] ? ResultValue<D["result"]>
+    : OutValues<D["parameters"]> extends [] ? ResultValue<D["result"]>
+    : { result: ResultValue<D["result"]>; outs: OutValues<D["parameters"]> };
+
+type BlockingCall<D extends FunctionDescription> = (
+  ...args: ParameterValues<InputParameters<D["parameters"]>>
+) => CallValue<D>;
+
+type NonblockingCall<D extends FunctionDescription> = (
+  ...args: [...ParameterValues<InputParameters<D["parameters"]>, true>, CallOptions?]
+) => Promise<CallValue<D>>;
+
+/**
+ * The exact call signature of a function description. Nonblocking
+ * functions return a promise and take an optional trailing `CallOptions`.
+ * Descriptions whose `nonblocking` is not known at compile time, such as
+ * the plain `FunctionDescription`, get an unchecked signature.
+ */
+export type ForeignCall<D extends FunctionDescription> = "nonblocking" extends keyof D
+  ? D extends { nonblocking: true } ? NonblockingCall<D>
+  : D extends { nonblocking: false } ? BlockingCall<D>
+  : (...args: unknown[]) => unknown
+  : BlockingCall<D>;
+
+/**
+ * The exact type of a library symbol. Symbols declared
+ * `reentrancy: "deferred"` return a promise for their result when they are
+ * deferred. A library-wide `reentrancy` option is not reflected.
+ */
+export type ForeignSymbol<D extends FunctionDescription> = D extends
+  { reentrancy: "deferred"; nonblocking?: false }
+  ? (...args: ParameterValues<InputParameters<D["parameters"]>>) =>
+    | CallValue<D>
+    | Promise<CallValue<D>>
+  : ForeignCall<D>;
+
+/**
+ * The `symbols` of a library opened with the given definition.
+ */
+export type ForeignSymbols<S extends LibraryDefinition> = {
+  [K in keyof S]: ForeignSymbol<S[K]>;
+};
+
+/**
+ * Value a stored callback receives for a parameter: pointers arrive as
+ * `ForeignPointer`s, function pointers as `ForeignFunction`s and C strings
+ * copied into JS strings.
+ */
+export type CallbackArgument<T extends ParameterType> = T extends RevokingPointerType
+  ? ForeignPointer | null
+  : T extends ResultType ? ResultValue<T>
+  : never;
+
+/**
+ * Values a stored callback receives for a parameter list, as a tuple.
+ */
+export type CallbackArguments<P extends readonly ParameterType[]> = {
+  -readonly [I in keyof P]: P[I] extends ParameterType ? CallbackArgument<P[I]> : never;
+};
+
+/**
+ * Value a stored callback answers with. Stored callbacks cannot return C
+ * strings or owning pointers.
+ */
+export type CallbackResult<T extends ResultType> = T extends "void" ? void
+  : T extends "pointer" ? ForeignPointer | null
+  : T extends NativeType | FunctionType | { struct: StructLayout } ? ParameterValue<T>
+  : never;
+
+/**
+ * The function a stored callback calls, like `Deno.StaticForeignFunction` in
+ * `proposal.d.ts`. Thread-safe callbacks may answer with a promise, which
+ * backends dispatching their calls wait for. Reply-mode callbacks answer
+ * through the `ReplyHandle` passed first instead. Descriptions whose
+ * parameters are not a tuple, such as the plain `StoredFunctionDescription`,
+ * take any function.
+ */
+export type CallbackFunction<D extends StoredFunctionDescription> =
+  number extends D["parameters"]["length"] ? (...args: never[]) => unknown
+    : D extends { reply: ReplyOptions } ? (
+        reply: ReplyHandle<CallbackResult<D["result"]>>,
+        ...args: CallbackArguments<D["parameters"]>
+      ) => unknown
+    : D extends { threadSafe: true } ? (
+        ...args: CallbackArguments<D["parameters"]>
+      ) => CallbackResult<D["result"]> | Promise<CallbackResult<D["result"]>>
+    : (...args: CallbackArguments<D["parameters"]>) => CallbackResult<D["result"]>;
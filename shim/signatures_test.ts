@@ -0,0 +1,213 @@
+/**
+ * Compile-time tests of `signatures.ts`: this module only has to type-check.
+ * Every combination of `nonblocking`, callback `threadSafe` and result type
+ * is covered, with `@ts-expect-error` marking the calls that must not.
+ */
+
+import type { ForeignOwnedPointer } from "./foreign_owned_pointer.ts";
+import type { ForeignLibrary } from "./library.ts";
+import type { OwnedPointer } from "./owned_pointer.ts";
+import type { ForeignFunction, ForeignPointer } from "./pointer.ts";
+import type { ForeignSymbol, ParameterValue, ResultValue, TypedArray } from "./signatures.ts";
+import type { StoredCallback } from "./stored_callback.ts";
+import { StructLayout } from "./struct.ts";
+import type { StructAccessor, StructReader } from "./struct.ts";
+import type { CallOptions } from "./types.ts";
+
+type Equal<A, B> = (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2)
+  ? true
+  : false;
+
+function assert<_ extends true>(): void {}
+
+const Point = new StructLayout({ x: "i32", y: "i32" });
+type PointFields = { x: "i32"; y: "i32" };
+const Callback = { parameters: ["u32"], result: "void" } as const;
+type Callback = typeof Callback;
+
+// Results, the same for synchronous and nonblocking symbols.
+assert<Equal<ResultValue<"void">, void>>();
+assert<Equal<ResultValue<"u8">, number>>();
+assert<Equal<ResultValue<"i32">, number>>();
+assert<Equal<ResultValue<"f64">, number>>();
+assert<Equal<ResultValue<"u64">, number | bigint>>();
+assert<Equal<ResultValue<"isize">, number | bigint>>();
+assert<Equal<ResultValue<"pointer">, ForeignPointer | null>>();
+assert<Equal<ResultValue<{ function: Callback }>, ForeignFunction<Callback> | null>>();
+assert<Equal<ResultValue<{ struct: typeof Point }>, StructReader<PointFields>>>();
+assert<Equal<ResultValue<{ pointer: true; free: "free" }>, ForeignOwnedPointer | null>>();
+assert<Equal<ResultValue<"cstring">, string | null>>();
+assert<Equal<ResultValue<{ cstring: "utf16le" }>, string | null>>();
+
+// Parameters of synchronous symbols.
+assert<Equal<ParameterValue<"u32">, number>>();
+assert<Equal<ParameterValue<"u64">, number | bigint>>();
+assert<
+  Equal<
+    ParameterValue<"pointer">,
+    TypedArray | OwnedPointer | ForeignPointer | ForeignOwnedPointer | null
+  >
+>();
+assert<Equal<ParameterValue<{ function: Callback }>, StoredCallback<Callback> | null>>();
+assert<Equal<ParameterValue<{ struct: typeof Point }>, StructAccessor<PointFields>>>();
+
+assert<
+  Equal<ParameterValue<{ pointer: "consumes" }>, ForeignPointer | ForeignOwnedPointer | null>
+>();
+
+assert<
+  Equal<
+    ParameterValue<"cstring">,
+    string | OwnedPointer | ForeignPointer | ForeignOwnedPointer | null
+  >
+>();
+
+// Parameters of nonblocking symbols.
+assert<Equal<ParameterValue<"u32", true>, number>>();
+assert<Equal<ParameterValue<"cstring", true>, string | OwnedPointer | null>>();
+assert<Equal<ParameterValue<"pointer", true>, OwnedPointer>>();
+assert<
+  Equal<
+    ParameterValue<{ function: Callback }, true>,
+    StoredCallback<Callback & { threadSafe: true }> | null
+  >
+>();
+
+const definition = {
+  sync_void: { parameters: ["pointer", { function: Callback }], result: "void" },
+  sync_u8: { parameters: ["pointer", { function: Callback }], result: "u8" },
+  sync_u64: { parameters: ["pointer", { function: Callback }], result: "u64" },
+  sync_pointer: { parameters: ["pointer", { function: Callback }], result: "pointer" },
+  sync_function: {
+    parameters: ["pointer", { function: Callback }],
+    result: { function: Callback },
+  },
+  sync_struct: { parameters: ["pointer", { function: Callback }], result: { struct: Point } },
+  async_void: {
+    parameters: ["pointer", { function: Callback }],
+    result: "void",
+    nonblocking: true,
+  },
+  async_u8: { parameters: ["pointer", { function: Callback }], result: "u8", nonblocking: true },
+  async_u64: {
+    parameters: ["pointer", { function: Callback }],
+    result: "u64",
+    nonblocking: true,
+  },
+  async_pointer: {
+    parameters: ["pointer", { function: Callback }],
+    result: "pointer",
+    nonblocking: true,
+  },
+  async_function: {
+    parameters: ["pointer", { function: Callback }],
+    result: { function: Callback },
+    nonblocking: true,
+  },
+  async_struct: {
+    parameters: ["pointer", { function: Callback }],
+    result: { struct: Point },
+    nonblocking: true,
+  },
+  deferred: { parameters: [], result: "u8", reentrancy: "deferred" },
+  sync_owning: { parameters: [], result: { pointer: true, free: "free" } },
+  async_owning: { parameters: [], result: { pointer: true, free: "free" }, nonblocking: true },
+  free: { parameters: ["pointer"], result: "void" },
+  destroy: { parameters: [{ pointer: "consumes" }], result: "void" },
+  sync_outs: {
+    parameters: ["u32", { out: "u64" }, { out: { struct: Point } }, { out: { bytes: 16 } }],
+    result: "i32",
+  },
+  async_outs: { parameters: [{ out: "f64" }, "u8"], result: "void", nonblocking: true },
+  checked: { parameters: [], result: "i32", errors: { negative: "errno", codes: { 2: "ENOENT" } } },
+} as const;
+type Symbols = ForeignLibrary<typeof definition>["symbols"];
+
+type Sync<R> = (
+  pointer: TypedArray | OwnedPointer | ForeignPointer | ForeignOwnedPointer | null,
+  callback: StoredCallback<Callback> | null,
+) => R;
+type Async<R> = (
+  pointer: OwnedPointer,
+  callback: StoredCallback<Callback & { threadSafe: true }> | null,
+  options?: CallOptions,
+) => Promise<R>;
+
+assert<Equal<Parameters<Symbols["sync_void"]>, Parameters<Sync<void>>>>();
+assert<Equal<ReturnType<Symbols["sync_void"]>, void>>();
+assert<Equal<ReturnType<Symbols["sync_u8"]>, number>>();
+assert<Equal<ReturnType<Symbols["sync_u64"]>, number | bigint>>();
+assert<Equal<ReturnType<Symbols["sync_pointer"]>, ForeignPointer | null>>();
+assert<Equal<ReturnType<Symbols["sync_function"]>, ForeignFunction<Callback> | null>>();
+assert<Equal<ReturnType<Symbols["sync_struct"]>, StructReader<PointFields>>>();
+assert<Equal<Parameters<Symbols["async_void"]>, Parameters<Async<void>>>>();
+assert<Equal<ReturnType<Symbols["async_void"]>, Promise<void>>>();
+assert<Equal<ReturnType<Symbols["async_u8"]>, Promise<number>>>();
+assert<Equal<ReturnType<Symbols["async_u64"]>, Promise<number | bigint>>>();
+assert<Equal<ReturnType<Symbols["async_pointer"]>, Promise<ForeignPointer | null>>>();
+assert<
+  Equal<ReturnType<Symbols["async_function"]>, Promise<ForeignFunction<Callback> | null>>
+>();
+assert<Equal<ReturnType<Symbols["async_struct"]>, Promise<StructReader<PointFields>>>>();
+assert<Equal<ReturnType<Symbols["deferred"]>, number | Promise<number>>>();
+assert<Equal<ReturnType<Symbols["sync_owning"]>, ForeignOwnedPointer | null>>();
+assert<Equal<ReturnType<Symbols["async_owning"]>, Promise<ForeignOwnedPointer | null>>>();
+
+// Out-parameters are not passed, calls return them along with the result.
+assert<Equal<Parameters<Symbols["sync_outs"]>, [number]>>();
+assert<
+  Equal<
+    ReturnType<Symbols["sync_outs"]>,
+    { result: number; outs: [bigint, StructReader<PointFields>, Uint8Array] }
+  >
+>();
+assert<Equal<Parameters<Symbols["async_outs"]>, [number, CallOptions?]>>();
+assert<
+  Equal<ReturnType<Symbols["async_outs"]>, Promise<{ result: void; outs: [number] }>>
+>();
+
+// Error conventions make failing calls throw, the result type is unchanged.
+assert<Equal<ReturnType<Symbols["checked"]>, number>>();
+
+// Foreign functions are called like the symbols they were described as.
+assert<
+  Equal<ForeignFunction<typeof definition["sync_u8"]>["call"], ForeignSymbol<
+    typeof definition["sync_u8"]
+  >>
+>();
+assert<Equal<Parameters<ForeignFunction["call"]>, unknown[]>>();
+
+// Calls with every combination of `nonblocking` and callback `threadSafe`.
+// Never run, only type-checked.
+export function calls(
+  symbols: Symbols,
+  pointer: OwnedPointer,
+  bytes: Uint8Array,
+  synchronous: StoredCallback<Callback>,
+  threadSafe: StoredCallback<Callback & { threadSafe: true }>,
+  other: StoredCallback<{ parameters: readonly ["u8"]; result: "void" }>,
+  owned: ForeignOwnedPointer,
+): void {
+  symbols.sync_u8(bytes, synchronous);
+  symbols.sync_u8(pointer, threadSafe);
+  symbols.sync_u8(null, null);
+  symbols.sync_u8(owned, null);
+  symbols.destroy(owned);
+  // @ts-expect-error: revoking pointer parameters only take foreign memory.
+  symbols.destroy(bytes);
+  // @ts-expect-error: the callback has a different signature.
+  symbols.sync_u8(bytes, other);
+
+  symbols.async_u8(pointer, threadSafe);
+  symbols.async_u8(pointer, null, { signal: AbortSignal.timeout(10) });
+  // @ts-expect-error: nonblocking calls only take thread-safe callbacks.
+  symbols.async_u8(pointer, synchronous);
+  // @ts-expect-error: nonblocking calls only take `OwnedPointer`s.
+  symbols.async_u8(bytes, threadSafe);
+  // @ts-expect-error: nonblocking calls do not take `ForeignOwnedPointer`s.
+  symbols.async_u8(owned, threadSafe);
+  // @ts-expect-error: nonblocking calls do not take null pointers.
+  symbols.async_u8(null, threadSafe);
+  // @ts-expect-error: synchronous calls take no call options.
+  symbols.sync_u8(bytes, null, {});
+}
@@ -0,0 +1,159 @@
+import { recordCreation, unwatch, watch } from "./leaks.ts";
+import type { NativeBackend, NativeCallback } from "./native.ts";
+import type { CallbackFunction } from "./signatures.ts";
+import type { StoredFunctionDescription } from "./types.ts";
+import { validateStoredFunction } from "./validate.ts";
+
+/**
+ * Creates a callback's native side for a backend. `create` creates it the
+ * usual way.
+ */
+type NativeFactory = (backend: NativeBackend, create: () => NativeCallback) => NativeCallback;
+
+let materializeCallback: (
+  callback: StoredCallback,
+  backend: NativeBackend,
+  create: (
+    description: StoredFunctionDescription,
+    fn: (...args: unknown[]) => unknown,
+  ) => NativeCallback,
+) => bigint;
+let callbackDescription: (callback: StoredCallback) => StoredFunctionDescription;
+/**
+ * Replaces how a callback's native side is created, for callbacks that do
+ * not run on the event loop such as `WorkerPoolCallback`, or that only work
+ * on some backends.
+ */
+let setNativeFactory: (callback: StoredCallback, factory: NativeFactory) => void;
+
+/**
+ * What a callback's native trampolines need. Kept apart from the
+ * `StoredCallback`, which they must not keep alive: leak tracking reports it
+ * once collected without having been deleted.
+ */
+interface CallbackState {
+  natives: Map<NativeBackend, NativeCallback>;
+  deleted: boolean;
+  running: number;
+}
+
+function run(
+  state: CallbackState,
+  callback: (...args: unknown[]) => unknown,
+  args: unknown[],
+): unknown {
+  state.running++;
+  let result: unknown;
+  try {
+    result = callback(...args);
+  } catch (error) {
+    settle(state);
+    throw error;
+  }
+  if (typeof (result as PromiseLike<unknown> | undefined)?.then === "function") {
+    // The native side still waits for the answer.
+    Promise.resolve(result).finally(() => settle(state)).catch(() => {});
+  } else {
+    settle(state);
+  }
+  return result;
+}
+
+function settle(state: CallbackState): void {
+  state.running--;
+  if (state.running === 0 && state.deleted) {
+    // The answer is only passed on to native code after the callback
+    // returned, and the native caller has to unwind. By the next task both
+    // have happened.
+    setTimeout(() => free(state), 0);
+  }
+}
+
+function free(state: CallbackState): void {
+  for (const native of state.natives.values()) {
+    native.close();
+  }
+  state.natives.clear();
+}
+
+/**
+ * Wrapper class for stored callbacks. A stored callback can passed to a native library with
+ * the library keeping a reference to the C callback it receives. The reference will be valid
+ * until `delete()` is called.
+ *
+ * The native trampoline is created lazily the first time the callback is passed to a library,
+ * once per backend, and maps onto `Deno.UnsafeCallback` when running on the Deno backend.
+ *
+ * Note: No `call()` method. This is intentional, see `storable-callbacks/created.ts`.
+ */
+export class StoredCallback<
+  const Fn extends StoredFunctionDescription = StoredFunctionDescription,
+> {
+  readonly threadSafe: boolean;
+  #description: Fn;
+  #callback: (...args: unknown[]) => unknown;
+  #factory: NativeFactory | null = null;
+  #state: CallbackState = { natives: new Map(), deleted: false, running: 0 };
+
+  constructor(description: Fn, callback: CallbackFunction<Fn>) {
+    validateStoredFunction(description);
+    this.threadSafe = description.threadSafe ?? false;
+    this.#description = description;
+    const state = this.#state;
+    // Called with the lifted values of its description's parameters.
+    const call = callback as (...args: unknown[]) => unknown;
+    this.#callback = (...args) => run(state, call, args);
+    recordCreation(this);
+    watch(this, "stored-callback");
+  }
+
+  /**
+   * Delete the stored callback and all its data.
+   *
+   * Using a deleted `StoredCallback` in FFI functions will throw an error.
+   *
+   * Deleting a callback from within itself, or while a promise it returned
+   * is pending, is safe: the native trampoline is kept alive until the last
+   * running invocation has returned and been answered, and freed after.
+   */
+  delete(): void {
+    if (this.#state.deleted) {
+      throw new Error("StoredCallback has already been deleted");
+    }
+    this.#state.deleted = true;
+    unwatch(this);
+    if (this.#state.running === 0) {
+      free(this.#state);
+    }
+  }
+
+  /**
+   * Deletes the stored callback unless it already was, for use with `using`.
+   */
+  [Symbol.dispose](): void {
+    if (!this.#state.deleted) {
+      this.delete();
+    }
+  }
+
+  static {
+    materializeCallback = (callback, backend, create) => {
+      if (callback.#state.deleted) {
+        throw new Error("Cannot use a deleted StoredCallback");
+      }
+      let native = callback.#state.natives.get(backend);
+      if (!native) {
+        const createNative = () => create(callback.#description, callback.#callback);
+        native = callback.#factory ? callback.#factory(backend, createNative) : createNative();
+        callback.#state.natives.set(backend, native);
+      }
+      return native.pointer;
+    };
+    setNativeFactory = (callback, factory) => {
+      callback.#factory = factory;
+    };
+    callbackDescription = (callback) => callback.#description;
+  }
+}
+
+export { callbackDescription, materializeCallback, setNativeFactory };
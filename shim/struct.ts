@@ -0,0 +1,515 @@
+/**
+ * Declarative struct layouts. Instead of hand-computing offsets for eg.
+ * `getBigUint64(24)`, describe the struct once and read it through named
+ * fields:
+ *
+ * ```ts
+ * const Point = new StructLayout({ x: "i32", y: "i32" });
+ * const Node = new StructLayout({
+ *   origin: { struct: Point },
+ *   name: { array: "u8", length: 16 },
+ *   next: "pointer",
+ *   visit: { function: { parameters: ["pointer"], result: "u8" } },
+ * });
+ * const node = Node.read(new ForeignPointerView(pointer));
+ * node.origin.x; // Read-only
+ * ```
+ *
+ * Offsets, alignment and padding follow the C ABI of LP64 platforms, where
+ * every primitive is aligned to its own size.
+ */
+
+import { bindForeignFunction, lowerArgument } from "./marshal.ts";
+import type { NativeBackend } from "./native.ts";
+import type { OwnedPointer } from "./owned_pointer.ts";
+import { ownedPointerBackend } from "./owned_pointer.ts";
+import type { ForeignFunction, ForeignPointer } from "./pointer.ts";
+import { createForeignPointer, unwrapForeignPointer } from "./pointer.ts";
+import type { StoredCallback } from "./stored_callback.ts";
+import type { FunctionType, NativeType } from "./types.ts";
+import { isFunctionType } from "./types.ts";
+import type { ForeignPointerView } from "./view.ts";
+
+/**
+ * Fixed-size array field, eg. `char name[16]` is `{ array: "u8", length: 16 }`.
+ */
+export interface ArrayType {
+  array: FieldType;
+  length: number;
+}
+
+/**
+ * Nested struct field, embedded by value.
+ */
+export interface StructType {
+  struct: StructLayout;
+}
+
+export type FieldType = NativeType | FunctionType | ArrayType | StructType;
+
+export interface StructFields {
+  [name: string]: FieldType;
+}
+
+type BigIntType = "u64" | "i64" | "usize" | "isize";
+
+/**
+ * Value of a field when read through a `ForeignPointerView`.
+ */
+export type FieldValue<T extends FieldType> = T extends BigIntType ? bigint
+  : T extends "pointer" ? ForeignPointer | null
+  : T extends NativeType ? number
+  : T extends FunctionType ? ForeignFunction<T["function"]> | null
+  : T extends { array: infer E extends FieldType } ? FieldValue<E>[]
+  : T extends { struct: StructLayout<infer G> } ? StructReader<G>
+  : never;
+
+/**
+ * Value of a field when accessed through an `OwnedPointer`. JS can write
+ * anything into the buffer, so pointer and function pointer fields read as
+ * raw `bigint` addresses rather than as a `ForeignPointer` or
+ * `ForeignFunction` that could be used to reach arbitrary memory. They are
+ * written as a `ForeignPointer` or a `StoredCallback`, or as an address.
+ */
+export type AccessorValue<T extends FieldType> = T extends BigIntType ? bigint
+  : T extends "pointer" ? ForeignPointer | bigint | null
+  : T extends NativeType ? number
+  : T extends FunctionType ? StoredCallback<T["function"]> | bigint | null
+  : T extends { array: infer E extends FieldType } ? AccessorValue<E>[]
+  : T extends { struct: StructLayout<infer G> } ? StructAccessor<G>
+  : never;
+
+export type StructReader<F extends StructFields> = {
+  readonly [K in keyof F]: FieldValue<F[K]>;
+};
+
+export type StructAccessor<F extends StructFields> = {
+  [K in keyof F]: AccessorValue<F[K]>;
+};
+
+const PRIMITIVE_SIZES: Record<NativeType, number> = {
+  u8: 1,
+  i8: 1,
+  u16: 2,
+  i16: 2,
+  u32: 4,
+  i32: 4,
+  u64: 8,
+  i64: 8,
+  usize: 8,
+  isize: 8,
+  f32: 4,
+  f64: 8,
+  pointer: 8,
+};
+
+// Foreign data is in the host's byte order, which is little-endian on every
+// platform Deno FFI supports.
+const LITTLE_ENDIAN = true;
+
+function isArrayType(type: FieldType): type is ArrayType {
+  return typeof type === "object" && "array" in type;
+}
+
+export function isStructType(type: unknown): type is StructType {
+  return typeof type === "object" && type !== null && "struct" in type;
+}
+
+export function sizeOf(type: FieldType): number {
+  if (isStructType(type)) {
+    return type.struct.size;
+  }
+  if (isArrayType(type)) {
+    return sizeOf(type.array) * type.length;
+  }
+  return isFunctionType(type) ? 8 : PRIMITIVE_SIZES[type];
+}
+
+export function alignmentOf(type: FieldType): number {
+  if (isStructType(type)) {
+    return type.struct.alignment;
+  }
+  if (isArrayType(type)) {
+    return alignmentOf(type.array);
+  }
+  return isFunctionType(type) ? 8 : PRIMITIVE_SIZES[type];
+}
+
+function alignTo(offset: number, alignment: number): number {
+  return Math.ceil(offset / alignment) * alignment;
+}
+
+interface Field {
+  name: string;
+  type: FieldType;
+  offset: number;
+}
+
+/**
+ * Raw memory access shared by readers and accessors.
+ */
+interface Memory {
+  get(type: NativeType | FunctionType, offset: number): unknown;
+  set?(type: NativeType | FunctionType, offset: number, value: unknown): void;
+}
+
+function viewMemory(view: ForeignPointerView): Memory {
+  return {
+    get(type, offset) {
+      if (isFunctionType(type)) {
+        return view.getForeignFunction(type.function, offset);
+      }
+      switch (type) {
+        case "u8":
+          return view.getUint8(offset);
+        case "i8":
+          return view.getInt8(offset);
+        case "u16":
+          return view.getUint16(offset);
+        case "i16":
+          return view.getInt16(offset);
+        case "u32":
+          return view.getUint32(offset);
+        case "i32":
+          return view.getInt32(offset);
+        case "u64":
+        case "usize":
+          return view.getBigUint64(offset);
+        case "i64":
+        case "isize":
+          return view.getBigInt64(offset);
+        case "f32":
+          return view.getFloat32(offset);
+        case "f64":
+          return view.getFloat64(offset);
+        case "pointer":
+          return view.getForeignPointer(offset);
+      }
+    },
+  };
+}
+
+/**
+ * Memory in a `DataView`. Unless the bytes were written by native code,
+ * pointer and function pointer fields read as raw addresses.
+ */
+function dataMemory(
+  data: () => DataView,
+  backend: () => NativeBackend,
+  native: boolean,
+): Memory {
+  return {
+    get(type, offset) {
+      if (!native && (isFunctionType(type) || type === "pointer")) {
+        return data().getBigUint64(offset, LITTLE_ENDIAN);
+      }
+      if (isFunctionType(type)) {
+        return bindForeignFunction(
+          backend(),
+          data().getBigUint64(offset, LITTLE_ENDIAN),
+          type.function,
+        );
+      }
+      const view = data();
+      switch (type) {
+        case "u8":
+          return view.getUint8(offset);
+        case "i8":
+          return view.getInt8(offset);
+        case "u16":
+          return view.getUint16(offset, LITTLE_ENDIAN);
+        case "i16":
+          return view.getInt16(offset, LITTLE_ENDIAN);
+        case "u32":
+          return view.getUint32(offset, LITTLE_ENDIAN);
+        case "i32":
+          return view.getInt32(offset, LITTLE_ENDIAN);
+        case "u64":
+        case "usize":
+          return view.getBigUint64(offset, LITTLE_ENDIAN);
+        case "i64":
+        case "isize":
+          return view.getBigInt64(offset, LITTLE_ENDIAN);
+        case "f32":
+          return view.getFloat32(offset, LITTLE_ENDIAN);
+        case "f64":
+          return view.getFloat64(offset, LITTLE_ENDIAN);
+        case "pointer":
+          return createForeignPointer(
+            backend(),
+            view.getBigUint64(offset, LITTLE_ENDIAN),
+          );
+      }
+    },
+    set(type, offset, value) {
+      if (isFunctionType(type)) {
+        const address = typeof value === "bigint"
+          ? value
+          : lowerArgument(backend(), type, value, false, []) as bigint;
+        data().setBigUint64(offset, address, LITTLE_ENDIAN);
+        return;
+      }
+      const view = data();
+      switch (type) {
+        case "u8":
+          return view.setUint8(offset, value as number);
+        case "i8":
+          return view.setInt8(offset, value as number);
+        case "u16":
+          return view.setUint16(offset, value as number, LITTLE_ENDIAN);
+        case "i16":
+          return view.setInt16(offset, value as number, LITTLE_ENDIAN);
+        case "u32":
+          return view.setUint32(offset, value as number, LITTLE_ENDIAN);
+        case "i32":
+          return view.setInt32(offset, value as number, LITTLE_ENDIAN);
+        case "u64":
+        case "usize":
+          return view.setBigUint64(offset, value as bigint, LITTLE_ENDIAN);
+        case "i64":
+        case "isize":
+          return view.setBigInt64(offset, value as bigint, LITTLE_ENDIAN);
+        case "f32":
+          return view.setFloat32(offset, value as number, LITTLE_ENDIAN);
+        case "f64":
+          return view.setFloat64(offset, value as number, LITTLE_ENDIAN);
+        case "pointer":
+          return view.setBigUint64(
+            offset,
+            value === null
+              ? 0n
+              : typeof value === "bigint"
+              ? value
+              : unwrapForeignPointer(value as ForeignPointer).address,
+            LITTLE_ENDIAN,
+          );
+      }
+    },
+  };
+}
+
+function ownedMemory(pointer: OwnedPointer): Memory {
+  // A fresh DataView for every access: the buffer is swapped out while a
+  // nonblocking call owns it, and `getDataView` throws during that time.
+  return dataMemory(() => pointer.getDataView(), () => ownedPointerBackend(pointer), false);
+}
+
+function getValue(memory: Memory, type: FieldType, offset: number): unknown {
+  if (isStructType(type)) {
+    return bindLayout(type.struct, memory, offset);
+  }
+  if (isArrayType(type)) {
+    const stride = sizeOf(type.array);
+    return Array.from(
+      { length: type.length },
+      (_, index) => getValue(memory, type.array, offset + index * stride),
+    );
+  }
+  return memory.get(type, offset);
+}
+
+function setValue(memory: Memory, type: FieldType, offset: number, value: unknown): void {
+  if (isStructType(type)) {
+    Object.assign(bindLayout(type.struct, memory, offset), value);
+    return;
+  }
+  if (isArrayType(type)) {
+    const values = value as ArrayLike<unknown>;
+    if (values.length !== type.length) {
+      throw new RangeError(`Expected an array of length ${type.length}`);
+    }
+    const stride = sizeOf(type.array);
+    for (let index = 0; index < type.length; index++) {
+      setValue(memory, type.array, offset + index * stride, values[index]);
+    }
+    return;
+  }
+  memory.set!(type, offset, value);
+}
+
+/**
+ * Reads a field into plain JS values, copying nested structs and arrays.
+ */
+function getPlainValue(memory: Memory, type: FieldType, offset: number): unknown {
+  if (isStructType(type)) {
+    const value: Record<string, unknown> = {};
+    for (const field of layoutFields(type.struct)) {
+      value[field.name] = getPlainValue(memory, field.type, offset + field.offset);
+    }
+    return value;
+  }
+  if (isArrayType(type)) {
+    const stride = sizeOf(type.array);
+    return Array.from(
+      { length: type.length },
+      (_, index) => getPlainValue(memory, type.array, offset + index * stride),
+    );
+  }
+  return memory.get(type, offset);
+}
+
+/**
+ * Checks that every field of a struct value and of the structs nested in it
+ * is present.
+ */
+function checkFields(layout: StructLayout, value: object, path: string): void {
+  for (const field of layoutFields(layout)) {
+    const fieldPath = `${path}${field.name}`;
+    if (!(field.name in value)) {
+      throw new TypeError(`Missing struct field "${fieldPath}"`);
+    }
+    checkNested(field.type, (value as Record<string, unknown>)[field.name], fieldPath);
+  }
+}
+
+function checkNested(type: FieldType, value: unknown, path: string): void {
+  if (isStructType(type)) {
+    if (typeof value !== "object" || value === null) {
+      throw new TypeError(`Expected a plain object for struct field "${path}"`);
+    }
+    checkFields(type.struct, value, `${path}.`);
+  } else if (isArrayType(type) && typeof value === "object" && value !== null) {
+    const values = value as ArrayLike<unknown>;
+    for (let index = 0; index < values.length; index++) {
+      checkNested(type.array, values[index], `${path}[${index}]`);
+    }
+  }
+}
+
+/**
+ * Encodes a plain object into the bytes of a struct passed by value. Every
+ * field must be present, including those of nested structs: a typo should
+ * not silently become a zeroed field.
+ */
+export function encodeStruct(
+  layout: StructLayout,
+  value: unknown,
+  backend: NativeBackend,
+): Uint8Array {
+  if (typeof value !== "object" || value === null) {
+    throw new TypeError("Expected a plain object for a struct passed by value");
+  }
+  checkFields(layout, value, "");
+  const bytes = new Uint8Array(layout.size);
+  const view = new DataView(bytes.buffer);
+  setValue(dataMemory(() => view, () => backend, false), { struct: layout }, 0, value);
+  return bytes;
+}
+
+/**
+ * Decodes the bytes of a struct passed by value into a plain object that
+ * shares no memory with the bytes it was read from.
+ */
+export function decodeStruct(
+  layout: StructLayout,
+  bytes: ArrayBufferView,
+  backend: NativeBackend,
+): Record<string, unknown> {
+  if (bytes.byteLength < layout.size) {
+    throw new RangeError("Struct value is smaller than its layout");
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return getPlainValue(
+    dataMemory(() => view, () => backend, true),
+    { struct: layout },
+    0,
+  ) as Record<string, unknown>;
+}
+
+/**
+ * Decodes the bytes of a single value, such as a call's out-parameter, into
+ * a plain value like `decodeStruct` does for structs.
+ */
+export function decodeValue(
+  type: FieldType,
+  bytes: ArrayBufferView,
+  backend: NativeBackend,
+): unknown {
+  if (bytes.byteLength < sizeOf(type)) {
+    throw new RangeError("Value is smaller than its type");
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return getPlainValue(dataMemory(() => view, () => backend, true), type, 0);
+}
+
+let bindLayout: (
+  layout: StructLayout,
+  memory: Memory,
+  offset: number,
+) => Record<string, unknown>;
+let layoutFields: (layout: StructLayout) => readonly Field[];
+
+/**
+ * A C struct layout with named fields.
+ */
+export class StructLayout<F extends StructFields = StructFields> {
+  readonly fields: Readonly<F>;
+  readonly size: number;
+  readonly alignment: number;
+  #fields: Field[] = [];
+
+  constructor(fields: F) {
+    let offset = 0;
+    let alignment = 1;
+    for (const [name, type] of Object.entries(fields)) {
+      const fieldAlignment = alignmentOf(type);
+      offset = alignTo(offset, fieldAlignment);
+      this.#fields.push({ name, type, offset });
+      offset += sizeOf(type);
+      alignment = Math.max(alignment, fieldAlignment);
+    }
+    this.fields = Object.freeze({ ...fields });
+    this.alignment = alignment;
+    // Trailing padding so that arrays of the struct keep every element aligned.
+    this.size = alignTo(offset, alignment);
+  }
+
+  /**
+   * Byte offset of a field from the start of the struct.
+   */
+  offsetOf(name: keyof F & string): number {
+    const field = this.#fields.find((field) => field.name === name);
+    if (!field) {
+      throw new TypeError(`Unknown struct field "${name}"`);
+    }
+    return field.offset;
+  }
+
+  /**
+   * Read-only access to a struct in foreign memory. Pointer fields resolve
+   * through `getForeignPointer`, function pointer fields through
+   * `getForeignFunction` with their declared signature.
+   */
+  read(view: ForeignPointerView, offset = 0): StructReader<F> {
+    return bindLayout(this, viewMemory(view), offset) as StructReader<F>;
+  }
+
+  /**
+   * Read-write access to a struct inside an `OwnedPointer`'s buffer. Every
+   * access goes through `getDataView` and thus throws while a nonblocking
+   * call owns the buffer.
+   */
+  access(pointer: OwnedPointer, offset = 0): StructAccessor<F> {
+    if (offset < 0 || offset + this.size > pointer.getDataView().byteLength) {
+      throw new RangeError("Struct does not fit inside the OwnedPointer's buffer");
+    }
+    return bindLayout(this, ownedMemory(pointer), offset) as StructAccessor<F>;
+  }
+
+  static {
+    layoutFields = (layout) => layout.#fields;
+    bindLayout = (layout, memory, base) => {
+      const target: Record<string, unknown> = {};
+      for (const { name, type, offset } of layout.#fields) {
+        Object.defineProperty(target, name, {
+          enumerable: true,
+          get: () => getValue(memory, type, base + offset),
+          set: memory.set
+            ? (value: unknown) => setValue(memory, type, base + offset, value)
+            : undefined,
+        });
+      }
+      return Object.seal(target);
+    };
+  }
+}
@@ -0,0 +1,104 @@
+import { assertEquals, assertInstanceOf, assertThrows } from "jsr:@std/assert@1";
+import { MockHeap, mockDlopen } from "./mock.ts";
+import {
+  ForeignFunction,
+  ForeignPointer,
+  ForeignPointerView,
+  OwnedPointer,
+  StoredCallback,
+  StructLayout,
+} from "./mod.ts";
+import { encodeStruct } from "./struct.ts";
+
+const Visit = { parameters: ["u32"], result: "u32" } as const;
+const Point = new StructLayout({ x: "i32", y: "i32" });
+const Node = new StructLayout({
+  tag: "u8",
+  origin: { struct: Point },
+  next: "pointer",
+  visit: { function: Visit },
+});
+
+/**
+ * A library handing out a `Node` in foreign memory and following the
+ * pointers of `Node`s passed to it.
+ */
+function nodeLibrary() {
+  const heap = new MockHeap();
+  const visit = heap.registerFunction((value) => (value as number) * 2, Visit);
+  const node = heap.alloc(Node.size);
+  heap.view(node, Node.size).setUint8(0, 5);
+  heap.view(node, Node.size).setInt32(Node.offsetOf("origin") + 4, 7, true);
+  heap.view(node, Node.size).setBigUint64(Node.offsetOf("next"), node, true);
+  heap.view(node, Node.size).setBigUint64(Node.offsetOf("visit"), visit, true);
+  const lib = mockDlopen({
+    get: { parameters: [], result: "pointer" },
+    next_tag: { parameters: ["pointer"], result: "u8" },
+    visit: { parameters: ["pointer", "u32"], result: "u32" },
+  }, {
+    get: () => node,
+    next_tag: (pointer: bigint) =>
+      heap.read(heap.read(pointer, Node.offsetOf("next"), "pointer") as bigint, 0, "u8"),
+    visit: (pointer: bigint, value: number) =>
+      heap.call(heap.read(pointer, Node.offsetOf("visit"), "pointer") as bigint, value),
+  }, { heap });
+  return lib;
+}
+
+Deno.test("layouts follow the C ABI", () => {
+  assertEquals([Point.size, Point.alignment], [8, 4]);
+  assertEquals(Node.offsetOf("origin"), 4);
+  assertEquals(Node.offsetOf("next"), 16);
+  assertEquals([Node.size, Node.alignment], [32, 8]);
+  const Name = new StructLayout({ name: { array: "u8", length: 3 }, id: "u16" });
+  assertEquals([Name.offsetOf("id"), Name.size], [4, 6]);
+  // @ts-expect-error: unknown field.
+  assertThrows(() => Name.offsetOf("nope"), TypeError);
+});
+
+Deno.test("structs in foreign memory resolve pointers and functions", () => {
+  const lib = nodeLibrary();
+  const node = Node.read(new ForeignPointerView(lib.symbols.get()!));
+  assertEquals(node.origin.y, 7);
+  assertInstanceOf(node.next, ForeignPointer);
+  assertInstanceOf(node.visit, ForeignFunction);
+  assertEquals(node.visit.call(4), 8);
+  assertEquals(Node.read(new ForeignPointerView(node.next)).origin.y, 7);
+});
+
+Deno.test("structs in owned memory hold raw addresses", () => {
+  const lib = nodeLibrary();
+  const pointer = new OwnedPointer(Node.size);
+  const node = Node.access(pointer);
+  node.tag = 1;
+  node.next = lib.symbols.get();
+  assertEquals(typeof node.next, "bigint");
+  assertEquals(lib.symbols.next_tag(pointer), 5);
+  using callback = new StoredCallback(Visit, (value) => value + 1);
+  node.visit = callback;
+  assertEquals(typeof node.visit, "bigint");
+  assertEquals(lib.symbols.visit(pointer, 1), 2);
+  const foreign = Node.read(new ForeignPointerView(lib.symbols.get()!)).visit;
+  // @ts-expect-error: function pointer fields take StoredCallbacks.
+  assertThrows(() => node.visit = foreign, TypeError, "Expected a StoredCallback");
+  node.next = null;
+  assertEquals(node.next, 0n);
+  assertThrows(() => Node.access(new OwnedPointer(8)), RangeError);
+});
+
+Deno.test("fields of nested structs must be present when encoding", () => {
+  const heap = new MockHeap();
+  const Line = new StructLayout({ ends: { array: { struct: Point }, length: 2 } });
+  const bytes = encodeStruct(Line, { ends: [{ x: 1, y: 2 }, { x: 3, y: 4 }] }, heap);
+  assertEquals(new Int32Array(bytes.buffer), new Int32Array([1, 2, 3, 4]));
+  assertThrows(
+    () => encodeStruct(Line, { ends: [{ x: 1, y: 2 }, { x: 3 }] }, heap),
+    TypeError,
+    'Missing struct field "ends[1].y"',
+  );
+  assertThrows(
+    () => encodeStruct(Node, { tag: 0, origin: 1, next: null, visit: null }, heap),
+    TypeError,
+    'struct field "origin"',
+  );
+});
@@ -0,0 +1,368 @@
+/**
+ * Symbol definition types understood by the shim. These mirror the unstable
+ * `Deno.ForeignFunction` shapes with the proposal's additions: function
+ * parameters and results are described as `{ function: { parameters, result } }`
+ * instead of being plain pointers.
+ */
+
+import type { OwnedPointer } from "./owned_pointer.ts";
+import type { FieldType, StructType } from "./struct.ts";
+
+/**
+ * Plain native types, equivalent to `Deno.NativeType` without `"function"`.
+ * Callbacks and function pointers are always described with an object.
+ */
+export type NativeType =
+  | "u8"
+  | "i8"
+  | "u16"
+  | "i16"
+  | "u32"
+  | "i32"
+  | "u64"
+  | "i64"
+  | "usize"
+  | "isize"
+  | "f32"
+  | "f64"
+  | "pointer";
+
+/**
+ * Describes a foreign function's signature, used both for `ForeignFunction`
+ * results and for `StoredCallback` parameters.
+ */
+export interface FunctionDescription {
+  parameters: readonly ParameterType[];
+  result: ResultType;
+  nonblocking?: boolean;
+}
+
+/**
+ * A function-typed parameter or result. As a parameter this takes a
+ * `StoredCallback`, as a result it produces a `ForeignFunction` or `null`.
+ */
+export interface FunctionType {
+  function: FunctionDescription;
+}
+
+/**
+ * Structs passed by value are described as `{ struct: StructLayout }` and are
+ * marshalled to and from plain objects.
+ */
+export type ParameterType =
+  | NativeType
+  | FunctionType
+  | StructType
+  | RevokingPointerType
+  | CStringType
+  | OutParameterType;
+
+export type ResultType =
+  | "void"
+  | NativeType
+  | FunctionType
+  | StructType
+  | OwningPointerType
+  | CStringType;
+
+/**
+ * Raw bytes of an out-parameter, decoded as a `Uint8Array`.
+ */
+export interface BytesType {
+  bytes: number;
+}
+
+/**
+ * A pointer parameter that the library writes a value into, like `size_t *`
+ * or `struct stat *`. The caller does not pass it: the call allocates an
+ * `OwnedPointer` of the right size, passes that and returns
+ * `{ result, outs }`, with `outs` holding the decoded values of its
+ * out-parameters in order. Synchronous and nonblocking calls alike.
+ *
+ * `out` takes any struct field type, eg. `{ out: "u64" }` or
+ * `{ out: { struct: Stat } }`, or `{ out: { bytes: n } }` for raw bytes.
+ * Only parameters of library symbols and foreign functions can be
+ * out-parameters.
+ */
+export interface OutParameterType {
+  out: FieldType | BytesType;
+}
+
+/**
+ * How a C string's characters are encoded. `"utf32le"` is `wchar_t` on
+ * Linux and macOS, `"utf16le"` is `wchar_t` on Windows.
+ */
+export type CStringEncoding = "utf8" | "latin1" | "utf16le" | "utf32le";
+
+/**
+ * A NUL-terminated string, `"cstring"` for UTF-8 or `{ cstring: encoding }`.
+ *
+ * As a parameter this takes a JS string, which is encoded for the duration
+ * of the call, or a pointer to an already encoded one such as
+ * `OwnedPointer.fromCString`'s. Nonblocking calls encode strings into memory
+ * the call owns, and otherwise only take `OwnedPointer`s, like for
+ * `"pointer"` parameters.
+ *
+ * As a result the string is copied into a JS string, or `null` for a null
+ * pointer. The native memory is not freed: for strings the caller has to
+ * free, declare an owning pointer result and read it with `getCString`.
+ */
+export type CStringType = "cstring" | { cstring: CStringEncoding };
+
+/**
+ * A pointer parameter whose memory is no longer valid once the call was
+ * made, like the handle passed to `destroy(handle)`:
+ *
+ * - `"consumes"`: the call takes ownership of the memory, eg. frees it.
+ * - `"invalidates"`: the call leaves the memory invalid without owning it,
+ *   eg. moves it like `realloc` does.
+ *
+ * Either way the `ForeignPointer` passed in is revoked, along with its
+ * views and the pointers read through them, and a `ForeignOwnedPointer`
+ * passed in no longer frees its memory. Such parameters take no
+ * `TypedArray`s or `OwnedPointer`s, whose memory belongs to JS.
+ *
+ * Only parameters of synchronous library symbols can revoke pointers.
+ */
+export interface RevokingPointerType {
+  pointer: "consumes" | "invalidates";
+}
+
+/**
+ * A pointer result that hands ownership of the memory to JS, as returned by
+ * constructors like `lib_create()`. It produces a `ForeignOwnedPointer` or
+ * `null`, which frees the memory by calling the library symbol named by
+ * `free`. That symbol must take the pointer as its only parameter.
+ *
+ * Only results of library symbols can be owning.
+ */
+export interface OwningPointerType {
+  pointer: true;
+  free: string;
+  /**
+   * Also free the memory once the `ForeignOwnedPointer` is garbage collected
+   * without having been freed. Defaults to false: collection is not
+   * guaranteed to ever happen, so this is a fallback, not a replacement.
+   */
+  finalize?: boolean;
+}
+
+/**
+ * Definition of a single library symbol, the shim's counterpart to
+ * `Deno.ForeignFunction`.
+ */
+export interface SymbolDefinition extends FunctionDescription {
+  /**
+   * Name of the symbol in the library, if different from the key.
+   */
+  name?: string;
+  /**
+   * Thread-safety policy of this symbol. It takes the place of the
+   * library's, except that a `"serialized"` library or exclusive group
+   * still holds the symbol's calls.
+   */
+  threadSafety?: ThreadSafety;
+  /**
+   * Overrides the library's re-entrancy policy for this symbol.
+   */
+  reentrancy?: Reentrancy;
+  /**
+   * How the symbol reports failure. Failing calls throw, or reject with, a
+   * `ForeignCallError` instead of returning.
+   */
+  errors?: ErrorConvention;
+}
+
+/**
+ * Names of error codes, eg. `{ 12: "ENOMEM" }`.
+ */
+export interface ErrorCodes {
+  readonly [code: number]: string;
+}
+
+/**
+ * How a symbol reports failure through its result, which must be an integer
+ * or a pointer:
+ *
+ * - `{ ok }`: any other result is a failure, and is its error code.
+ * - `{ failure }`: that result is a failure, any other one a success.
+ * - `{ negative: "errno" }`: negative results are failures, and their
+ *   absolute value is the error code. Only for signed integer results.
+ *
+ * `lastError` names a symbol of the library that takes no parameters and
+ * returns the error code of a failed call, like a getter for `errno` or
+ * `GetLastError`. It is called right after a failed call, which is why
+ * nonblocking symbols cannot use it. `codes` names error codes for
+ * `ForeignCallError`s.
+ */
+export type ErrorConvention =
+  | { ok: number | bigint; lastError?: string; codes?: ErrorCodes }
+  | { failure: number | bigint; lastError?: string; codes?: ErrorCodes }
+  | { negative: "errno"; codes?: ErrorCodes };
+
+/**
+ * What happens when a symbol is called from a callback while a synchronous
+ * call into the same library is still running, i.e. when native code calls
+ * back into JS and JS calls back into the library:
+ *
+ * - `"allowed"`: the call goes through, the default.
+ * - `"forbidden"`: the call throws an `FfiReentrancyError`.
+ * - `"deferred"`: the call is made once the outermost running call has
+ *   returned, and a promise for its result is returned instead.
+ */
+export type Reentrancy = "allowed" | "forbidden" | "deferred";
+
+/**
+ * How a symbol may be called with respect to other threads:
+ *
+ * - `"concurrent"`: no restrictions, the default.
+ * - `"serialized"`: calls never overlap. Declared on the library this
+ *   serializes all of its calls, whatever their symbols declare, on a symbol
+ *   only its own.
+ * - `{ exclusiveWith: group }`: no two calls of symbols in the named group
+ *   run at the same time.
+ * - `"event-loop-only"`: the symbol is only ever called on the event loop
+ *   thread and thus cannot be `nonblocking`.
+ *
+ * Synchronous calls cannot queue; they throw if a conflicting nonblocking
+ * call is in flight, and conflicting nonblocking calls made while they run
+ * queue until they return.
+ */
+export type ThreadSafety =
+  | "concurrent"
+  | "serialized"
+  | "event-loop-only"
+  | { exclusiveWith: string };
+
+/**
+ * Library-wide options passed to `dlopen`.
+ */
+export interface LibraryOptions {
+  /**
+   * Default thread-safety policy of the library's symbols.
+   */
+  threadSafety?: ThreadSafety;
+  /**
+   * Default re-entrancy policy of the library's symbols.
+   */
+  reentrancy?: Reentrancy;
+  /**
+   * Maximum number of nonblocking calls into the library in flight at once.
+   * Further calls queue until a slot frees up.
+   */
+  maxConcurrency?: number;
+}
+
+/**
+ * Definition object passed to `dlopen`, the shim's counterpart to
+ * `Deno.ForeignFunctionInterface`.
+ */
+export interface LibraryDefinition {
+  [name: string]: SymbolDefinition;
+}
+
+/**
+ * Describes a stored function. See `StoredFunctionDescription` in `proposal.d.ts`.
+ */
+export interface StoredFunctionDescription {
+  parameters: readonly ParameterType[];
+  result: ResultType;
+  /**
+   * Controls whether this callback should be callable from other threads. Defaults to false.
+   */
+  threadSafe?: boolean;
+  /**
+   * Controls whether an `async` callback is allowed. Only allowed if `threadSafe` is set true.
+   */
+  nonblocking?: boolean;
+  /**
+   * Answer through a one-shot `ReplyHandle` passed as the callback's first
+   * argument instead of through its return value. Only allowed if
+   * `threadSafe` is set true, and cannot be combined with `nonblocking`.
+   */
+  reply?: ReplyOptions;
+  /**
+   * What happens when the callback throws, or its promise rejects, while
+   * native code is calling it. By default the error propagates into the
+   * backend, which for native code is undefined behaviour.
+   */
+  onError?: CallbackErrorPolicy;
+}
+
+/**
+ * - `{ fallback }`: answer the native caller with `fallback` instead.
+ * - `"abort"`: abort the process, like an uncaught C++ exception would.
+ * - `"rethrow"`: answer with a zero value and rethrow the error from the
+ *   synchronous foreign call that native code called the callback from, once
+ *   it returns to JS. Useful for `drain_queue`-style loops. Where there is no
+ *   such call, eg. for calls from foreign threads or rejected promises, a
+ *   `CallbackErrorEvent` is dispatched on `globalThis` instead.
+ */
+export type CallbackErrorPolicy = { fallback: unknown } | "abort" | "rethrow";
+
+/**
+ * Options of reply-mode stored callbacks.
+ */
+export interface ReplyOptions {
+  /**
+   * Milliseconds to wait for a reply before answering with `default`.
+   * Waits until the handle is garbage collected by default.
+   */
+  timeout?: number;
+  /**
+   * Answer given when the handle times out or is garbage collected without
+   * a reply. Must be a valid return value of the callback.
+   */
+  default?: unknown;
+}
+
+/**
+ * Optional trailing argument of nonblocking symbols and `ForeignFunction.call`.
+ */
+export interface CallOptions {
+  /**
+   * Aborting rejects the call's promise right away. `OwnedPointer` arguments
+   * stay detached until the native call actually returns, after which they
+   * are freed or, if `onSettled` is given, handed back through it.
+   */
+  signal?: AbortSignal;
+  /**
+   * Called once an aborted call's native side has really returned.
+   */
+  onSettled?: (settled: SettledCall) => void;
+}
+
+export interface SettledCall {
+  /**
+   * The call's `OwnedPointer` arguments, usable again.
+   */
+  pointers: OwnedPointer[];
+  result?: unknown;
+  error?: unknown;
+}
+
+export function isFunctionType(type: ParameterType | ResultType): type is FunctionType {
+  return typeof type === "object" && type !== null && "function" in type;
+}
+
+export function isOwningPointerType(type: ParameterType | ResultType): type is OwningPointerType {
+  return typeof type === "object" && type !== null && "pointer" in type && type.pointer === true;
+}
+
+export function isRevokingPointerType(
+  type: ParameterType | ResultType,
+): type is RevokingPointerType {
+  return typeof type === "object" && type !== null && "pointer" in type && type.pointer !== true;
+}
+
+export function isCStringType(type: ParameterType | ResultType): type is CStringType {
+  return type === "cstring" || (typeof type === "object" && type !== null && "cstring" in type);
+}
+
+export function cstringEncoding(type: CStringType): CStringEncoding {
+  return type === "cstring" ? "utf8" : type.cstring;
+}
+
+export function isOutParameterType(type: ParameterType | ResultType): type is OutParameterType {
+  return typeof type === "object" && type !== null && "out" in type;
+}
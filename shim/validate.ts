@@ -0,0 +1,601 @@
+/**
+ * Checks definitions against the proposal's rules up front, so that
+ * mistakes surface when a library is opened or a callback created instead
+ * of as crashes at call time. All problems are collected and thrown as one
+ * `FfiDefinitionError`, each with the path of the offending property:
+ *
+ * ```ts
+ * validateDefinitions({
+ *   register_queue_callback: {
+ *     parameters: [{ function: { parameters: ["pointer"], result: "u8" }, persist: true }],
+ *     result: "bool",
+ *   },
+ * });
+ * // FfiDefinitionError: Found 2 problem(s) in FFI definitions:
+ * // - register_queue_callback.parameters[0].persist: ...
+ * // - register_queue_callback.result: Unknown type "bool", use "u8"
+ * ```
+ */
+
+import { FfiDefinitionError } from "./errors.ts";
+import { StructLayout } from "./struct.ts";
+import type { LibraryDefinition, LibraryOptions, StoredFunctionDescription } from "./types.ts";
+import type { VtableEntries } from "./vtable.ts";
+
+/**
+ * A single problem found in a definition.
+ */
+export interface FfiDefinitionProblem {
+  /**
+   * Path of the offending property, eg. `"open.parameters[1]"`.
+   */
+  path: string;
+  message: string;
+}
+
+const NATIVE_TYPES: ReadonlySet<unknown> = new Set([
+  "u8",
+  "i8",
+  "u16",
+  "i16",
+  "u32",
+  "i32",
+  "u64",
+  "i64",
+  "usize",
+  "isize",
+  "f32",
+  "f64",
+  "pointer",
+]);
+
+const TYPE_HINTS: Record<string, string> = {
+  bool: 'use "u8"',
+  buffer: 'use "pointer", which takes TypedArrays in synchronous calls',
+  function: "describe function pointers as { function: { parameters, result } }",
+  string: 'use "cstring" for NUL-terminated strings',
+};
+
+const CSTRING_ENCODINGS = ["utf8", "latin1", "utf16le", "utf32le"];
+
+const PROPERTY_HINTS: Record<string, string> = {
+  persist: "the proposal rejects persisted callbacks, pass a StoredCallback to keep a " +
+    "callback alive instead (see storable-callbacks/described.ts)",
+  threadSafe: "symbols declare a threadSafety policy, threadSafe is for stored callbacks",
+  threadSafety: "stored callbacks declare threadSafe, threadSafety is for symbols",
+};
+
+const FUNCTION_KEYS = ["parameters", "result", "nonblocking"];
+const SYMBOL_KEYS = [...FUNCTION_KEYS, "name", "threadSafety", "reentrancy", "errors"];
+const STORED_FUNCTION_KEYS = [...FUNCTION_KEYS, "threadSafe", "reply", "onError"];
+const VTABLE_ENTRY_KEYS = [...FUNCTION_KEYS, "offset", "required"];
+
+const REENTRANCY = ["allowed", "forbidden", "deferred"];
+
+const INTEGER_TYPES = ["u8", "i8", "u16", "i16", "u32", "i32", "u64", "i64", "usize", "isize"];
+const SIGNED_TYPES = ["i8", "i16", "i32", "i64", "isize"];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function checkKeys(
+  value: Record<string, unknown>,
+  known: readonly string[],
+  path: string,
+  problems: FfiDefinitionProblem[],
+): void {
+  for (const key of Object.keys(value)) {
+    if (!known.includes(key)) {
+      const hint = PROPERTY_HINTS[key];
+      problems.push({
+        path: `${path}.${key}`,
+        message: `Unknown property "${key}"${hint ? `, ${hint}` : ""}`,
+      });
+    }
+  }
+}
+
+/**
+ * Checks an owning pointer result. `symbols` is the library definition the
+ * result belongs to, which must define its deallocator.
+ */
+function checkOwningPointer(
+  type: Record<string, unknown>,
+  path: string,
+  symbols: Record<string, unknown>,
+  problems: FfiDefinitionProblem[],
+): void {
+  checkKeys(type, ["pointer", "free", "finalize"], path, problems);
+  if (type.pointer !== true) {
+    problems.push({ path: `${path}.pointer`, message: "Expected true" });
+  }
+  if ("finalize" in type && typeof type.finalize !== "boolean") {
+    problems.push({ path: `${path}.finalize`, message: "Expected a boolean" });
+  }
+  if (typeof type.free !== "string") {
+    problems.push({ path: `${path}.free`, message: "Expected the name of a library symbol" });
+    return;
+  }
+  const free = symbols[type.free];
+  if (!isObject(free)) {
+    problems.push({
+      path: `${path}.free`,
+      message: `Unknown symbol "${type.free}", the deallocator must be defined in the library`,
+    });
+    return;
+  }
+  const { parameters } = free;
+  if (!Array.isArray(parameters) || parameters.length !== 1 || parameters[0] !== "pointer") {
+    problems.push({
+      path: `${path}.free`,
+      message: `Deallocator "${type.free}" must take a single "pointer" parameter`,
+    });
+  }
+  if (free.nonblocking) {
+    problems.push({
+      path: `${path}.free`,
+      message: `Deallocator "${type.free}" cannot be nonblocking`,
+    });
+  }
+}
+
+function checkOutParameter(
+  type: Record<string, unknown>,
+  path: string,
+  problems: FfiDefinitionProblem[],
+): void {
+  checkKeys(type, ["out"], path, problems);
+  const { out } = type;
+  if (isObject(out) && "bytes" in out) {
+    checkKeys(out, ["bytes"], `${path}.out`, problems);
+    if (!(Number.isInteger(out.bytes) && (out.bytes as number) > 0)) {
+      problems.push({ path: `${path}.out.bytes`, message: "Expected a positive integer" });
+    }
+    return;
+  }
+  const valid = NATIVE_TYPES.has(out) ||
+    (isObject(out) && "array" in out && Number.isInteger(out.length)) ||
+    (isObject(out) && "struct" in out && out.struct instanceof StructLayout) ||
+    (isObject(out) && "function" in out);
+  if (!valid) {
+    problems.push({
+      path: `${path}.out`,
+      message: "Expected a struct field type, eg. a native type name, or { bytes: n }",
+    });
+  }
+}
+
+/**
+ * Callbacks get the raw pointers native code passes them, out-parameters
+ * are only allocated by calls made from JS.
+ */
+function checkNoOutParameters(
+  description: unknown,
+  path: string,
+  problems: FfiDefinitionProblem[],
+): void {
+  if (!isObject(description) || !Array.isArray(description.parameters)) {
+    return;
+  }
+  description.parameters.forEach((type, index) => {
+    if (isObject(type) && "out" in type) {
+      problems.push({
+        path: `${path}.parameters[${index}]`,
+        message: 'Callbacks cannot declare out-parameters, use "pointer"',
+      });
+    }
+  });
+}
+
+/**
+ * Checks a parameter or result type. Owning and revoking pointers are only
+ * allowed in library symbols, for which `symbols` is the library definition.
+ */
+function checkType(
+  type: unknown,
+  path: string,
+  isResult: boolean,
+  problems: FfiDefinitionProblem[],
+  symbols?: Record<string, unknown>,
+): void {
+  if (typeof type === "string") {
+    if (NATIVE_TYPES.has(type) || type === "cstring" || (isResult && type === "void")) {
+      return;
+    }
+    const hint = type === "void" ? "only results can be void" : TYPE_HINTS[type];
+    problems.push({ path, message: `Unknown type "${type}"${hint ? `, ${hint}` : ""}` });
+    return;
+  }
+  if (isObject(type) && "function" in type) {
+    checkKeys(type, ["function"], path, problems);
+    checkFunction(type.function, `${path}.function`, FUNCTION_KEYS, problems);
+    if (!isResult) {
+      checkNoOutParameters(type.function, `${path}.function`, problems);
+    }
+    return;
+  }
+  if (isObject(type) && "struct" in type) {
+    checkKeys(type, ["struct"], path, problems);
+    if (!(type.struct instanceof StructLayout)) {
+      problems.push({ path: `${path}.struct`, message: "Expected a StructLayout" });
+    }
+    return;
+  }
+  if (isObject(type) && "out" in type) {
+    if (isResult) {
+      problems.push({ path, message: "Results cannot be out-parameters" });
+    } else {
+      checkOutParameter(type, path, problems);
+    }
+    return;
+  }
+  if (isObject(type) && "cstring" in type) {
+    checkKeys(type, ["cstring"], path, problems);
+    if (!CSTRING_ENCODINGS.includes(type.cstring as string)) {
+      problems.push({
+        path: `${path}.cstring`,
+        message: 'Expected "utf8", "latin1", "utf16le" or "utf32le"',
+      });
+    }
+    return;
+  }
+  if (isObject(type) && (type.pointer === "consumes" || type.pointer === "invalidates")) {
+    checkKeys(type, ["pointer"], path, problems);
+    if (isResult || !symbols) {
+      problems.push({
+        path,
+        message: `"${type.pointer}" pointers are only supported as parameters of library symbols`,
+      });
+    }
+    return;
+  }
+  if (isObject(type) && "pointer" in type) {
+    if (isResult && symbols) {
+      checkOwningPointer(type, path, symbols, problems);
+    } else {
+      problems.push({
+        path,
+        message: "Owning pointers are only supported as results of library symbols",
+      });
+    }
+    return;
+  }
+  problems.push({
+    path,
+    message: "Expected a native type name, { function: description } or { struct: layout }",
+  });
+}
+
+/**
+ * Checks what symbols, function pointers and stored callbacks have in
+ * common. Returns the description if it is an object at all. `symbols` is
+ * only given for library symbols.
+ */
+function checkFunction(
+  description: unknown,
+  path: string,
+  known: readonly string[],
+  problems: FfiDefinitionProblem[],
+  symbols?: Record<string, unknown>,
+): Record<string, unknown> | null {
+  if (!isObject(description)) {
+    problems.push({ path, message: "Expected an object with parameters and a result" });
+    return null;
+  }
+  checkKeys(description, known, path, problems);
+  if (!Array.isArray(description.parameters)) {
+    problems.push({ path: `${path}.parameters`, message: "Expected an array of types" });
+  } else {
+    description.parameters.forEach((type, index) =>
+      checkType(type, `${path}.parameters[${index}]`, false, problems, symbols)
+    );
+  }
+  if (!("result" in description)) {
+    problems.push({ path: `${path}.result`, message: 'Missing result, use "void" for none' });
+  } else {
+    checkType(description.result, `${path}.result`, true, problems, symbols);
+  }
+  if ("nonblocking" in description && typeof description.nonblocking !== "boolean") {
+    problems.push({ path: `${path}.nonblocking`, message: "Expected a boolean" });
+  }
+  return description;
+}
+
+function checkPolicies(
+  value: Record<string, unknown>,
+  path: string,
+  problems: FfiDefinitionProblem[],
+): void {
+  const { threadSafety, reentrancy } = value;
+  if (
+    threadSafety !== undefined &&
+    threadSafety !== "concurrent" &&
+    threadSafety !== "serialized" &&
+    threadSafety !== "event-loop-only" &&
+    !(isObject(threadSafety) && typeof threadSafety.exclusiveWith === "string")
+  ) {
+    problems.push({
+      path: `${path}.threadSafety`,
+      message: 'Expected "concurrent", "serialized", "event-loop-only" or { exclusiveWith }',
+    });
+  }
+  if (reentrancy !== undefined && !REENTRANCY.includes(reentrancy as string)) {
+    problems.push({
+      path: `${path}.reentrancy`,
+      message: 'Expected "allowed", "forbidden" or "deferred"',
+    });
+  }
+}
+
+function isCode(value: unknown): boolean {
+  return typeof value === "bigint" || Number.isInteger(value);
+}
+
+/**
+ * Checks a symbol's error convention. Results it applies to are compared
+ * raw, so they have to be integers or pointers.
+ */
+function checkErrors(
+  key: string,
+  symbol: Record<string, unknown>,
+  symbols: Record<string, unknown>,
+  problems: FfiDefinitionProblem[],
+): void {
+  const { errors, result } = symbol;
+  const path = `${key}.errors`;
+  if (!isObject(errors)) {
+    problems.push({ path, message: "Expected an object" });
+    return;
+  }
+  checkKeys(errors, ["ok", "failure", "negative", "lastError", "codes"], path, problems);
+  const kinds = ["ok", "failure", "negative"].filter((kind) => kind in errors);
+  if (kinds.length !== 1) {
+    problems.push({ path, message: "Expected exactly one of ok, failure or negative" });
+  }
+  for (const kind of ["ok", "failure"]) {
+    if (kind in errors && !isCode(errors[kind])) {
+      problems.push({ path: `${path}.${kind}`, message: "Expected an integer or a bigint" });
+    }
+  }
+  const pointerLike = result === "pointer" || result === "cstring" ||
+    (isObject(result) && ("function" in result || "pointer" in result || "cstring" in result));
+  if ("negative" in errors) {
+    if (errors.negative !== "errno") {
+      problems.push({ path: `${path}.negative`, message: 'Expected "errno"' });
+    }
+    if (!SIGNED_TYPES.includes(result as string)) {
+      problems.push({ path, message: "Negative error codes need a signed integer result" });
+    }
+  } else if (!INTEGER_TYPES.includes(result as string) && !pointerLike) {
+    problems.push({ path, message: "Error conventions need an integer or pointer result" });
+  }
+  if ("codes" in errors) {
+    const { codes } = errors;
+    if (
+      !isObject(codes) ||
+      Object.entries(codes).some(([code, name]) =>
+        !/^-?\d+$/.test(code) || typeof name !== "string"
+      )
+    ) {
+      problems.push({
+        path: `${path}.codes`,
+        message: "Expected an object mapping integer codes to names",
+      });
+    }
+  }
+  if (!("lastError" in errors)) {
+    return;
+  }
+  const { lastError } = errors;
+  if ("negative" in errors) {
+    problems.push({
+      path: `${path}.lastError`,
+      message: "Negative error codes are the codes themselves, lastError cannot be used",
+    });
+  }
+  if (symbol.nonblocking) {
+    problems.push({
+      path: `${path}.lastError`,
+      message: "Nonblocking symbols fail on another thread, lastError cannot be used",
+    });
+  }
+  if (typeof lastError !== "string") {
+    problems.push({ path: `${path}.lastError`, message: "Expected the name of a library symbol" });
+    return;
+  }
+  const getter = symbols[lastError];
+  if (!isObject(getter)) {
+    problems.push({
+      path: `${path}.lastError`,
+      message: `Unknown symbol "${lastError}", the getter must be defined in the library`,
+    });
+    return;
+  }
+  if (
+    !Array.isArray(getter.parameters) || getter.parameters.length !== 0 ||
+    !INTEGER_TYPES.includes(getter.result as string) || getter.nonblocking
+  ) {
+    problems.push({
+      path: `${path}.lastError`,
+      message: `Getter "${lastError}" must take no parameters, return an integer ` +
+        "and not be nonblocking",
+    });
+  }
+}
+
+function checkSymbol(
+  key: string,
+  definition: unknown,
+  symbols: Record<string, unknown>,
+  options: LibraryOptions,
+  problems: FfiDefinitionProblem[],
+): void {
+  const symbol = checkFunction(definition, key, SYMBOL_KEYS, problems, symbols);
+  if (!symbol) {
+    return;
+  }
+  if ("name" in symbol && typeof symbol.name !== "string") {
+    problems.push({ path: `${key}.name`, message: "Expected a string" });
+  }
+  checkPolicies(symbol, key, problems);
+  if ("errors" in symbol) {
+    checkErrors(key, symbol, symbols, problems);
+  }
+  if (
+    symbol.nonblocking && Array.isArray(symbol.parameters) &&
+    symbol.parameters.some((type) => isObject(type) && typeof type.pointer === "string")
+  ) {
+    problems.push({
+      path: `${key}.nonblocking`,
+      message: "Nonblocking symbols cannot consume or invalidate pointers",
+    });
+  }
+  const threadSafety = symbol.threadSafety ?? options.threadSafety;
+  if (threadSafety === "event-loop-only" && symbol.nonblocking) {
+    problems.push({
+      path: `${key}.nonblocking`,
+      message: "Event-loop-only symbols cannot be nonblocking",
+    });
+  }
+}
+
+function checkStoredFunction(
+  description: unknown,
+  path: string,
+  problems: FfiDefinitionProblem[],
+): void {
+  const stored = checkFunction(description, path, STORED_FUNCTION_KEYS, problems);
+  if (!stored) {
+    return;
+  }
+  checkNoOutParameters(stored, path, problems);
+  const { result } = stored;
+  if (result === "cstring" || (isObject(result) && "cstring" in result)) {
+    problems.push({
+      path: `${path}.result`,
+      message: 'Stored callbacks cannot return C strings, use "pointer"',
+    });
+  }
+  if ("threadSafe" in stored && typeof stored.threadSafe !== "boolean") {
+    problems.push({ path: `${path}.threadSafe`, message: "Expected a boolean" });
+  }
+  if (stored.nonblocking && !stored.threadSafe) {
+    problems.push({
+      path: `${path}.nonblocking`,
+      message: "Nonblocking stored callbacks must be thread-safe",
+    });
+  }
+  const { reply, onError } = stored;
+  if (reply !== undefined) {
+    if (!stored.threadSafe || stored.nonblocking) {
+      problems.push({
+        path: `${path}.reply`,
+        message: "Reply handle stored callbacks must be thread-safe and not nonblocking",
+      });
+    }
+    if (!isObject(reply)) {
+      problems.push({ path: `${path}.reply`, message: "Expected an object" });
+    } else {
+      checkKeys(reply, ["timeout", "default"], `${path}.reply`, problems);
+      if (
+        reply.timeout !== undefined &&
+        !(typeof reply.timeout === "number" && reply.timeout >= 0)
+      ) {
+        problems.push({
+          path: `${path}.reply.timeout`,
+          message: "Expected a non-negative number of milliseconds",
+        });
+      }
+    }
+  }
+  if (
+    onError !== undefined &&
+    onError !== "abort" &&
+    onError !== "rethrow" &&
+    !(isObject(onError) && "fallback" in onError)
+  ) {
+    problems.push({
+      path: `${path}.onError`,
+      message: 'Expected "abort", "rethrow" or { fallback }',
+    });
+  }
+}
+
+/**
+ * Checks a library definition and its options, as passed to `dlopen`.
+ * Throws an `FfiDefinitionError` listing every problem found.
+ */
+export function validateDefinitions(
+  definition: LibraryDefinition,
+  options: LibraryOptions = {},
+): void {
+  const problems: FfiDefinitionProblem[] = [];
+  if (!isObject(definition)) {
+    problems.push({ path: "(definition)", message: "Expected an object of symbols" });
+  } else {
+    for (const [key, symbol] of Object.entries(definition)) {
+      checkSymbol(key, symbol, definition, options, problems);
+    }
+  }
+  checkPolicies(options as Record<string, unknown>, "options", problems);
+  if (problems.length > 0) {
+    throw new FfiDefinitionError(problems);
+  }
+}
+
+/**
+ * Checks the description of a stored callback. Throws an
+ * `FfiDefinitionError` listing every problem found.
+ */
+export function validateStoredFunction(description: StoredFunctionDescription): void {
+  const problems: FfiDefinitionProblem[] = [];
+  checkStoredFunction(description, "StoredCallback", problems);
+  if (problems.length > 0) {
+    throw new FfiDefinitionError(problems);
+  }
+}
+
+/**
+ * Checks the entries of a `VtableLayout`. Throws an `FfiDefinitionError`
+ * listing every problem found.
+ */
+export function validateVtable(entries: VtableEntries): void {
+  const problems: FfiDefinitionProblem[] = [];
+  if (!isObject(entries)) {
+    problems.push({ path: "(vtable)", message: "Expected an object of entries" });
+  } else {
+    // Slots by offset, to find entries sharing one.
+    const slots = new Map<number, string>();
+    let next = 0;
+    for (const [name, entry] of Object.entries(entries)) {
+      const checked = checkFunction(entry, name, VTABLE_ENTRY_KEYS, problems);
+      if (!checked) {
+        continue;
+      }
+      const { offset = next, required } = checked;
+      if (
+        !(typeof offset === "number" && Number.isInteger(offset) && offset >= 0 && offset % 8 === 0)
+      ) {
+        problems.push({
+          path: `${name}.offset`,
+          message: "Expected a non-negative multiple of 8, slots are pointer-aligned",
+        });
+      } else if (slots.has(offset)) {
+        problems.push({
+          path: `${name}.offset`,
+          message: `Slot at offset ${offset} is already taken by "${slots.get(offset)}"`,
+        });
+      } else {
+        slots.set(offset, name);
+        next = offset + 8;
+      }
+      if (required !== undefined && typeof required !== "boolean") {
+        problems.push({ path: `${name}.required`, message: "Expected a boolean" });
+      }
+    }
+  }
+  if (problems.length > 0) {
+    throw new FfiDefinitionError(problems);
+  }
+}
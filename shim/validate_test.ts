@@ -0,0 +1,38 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert@1";
+import { FfiDefinitionError, validateDefinitions } from "./mod.ts";
+import type { LibraryDefinition, LibraryOptions } from "./types.ts";
+
+Deno.test("every problem is reported with the path of its property", () => {
+  const error = assertThrows(
+    () =>
+      validateDefinitions(
+        {
+          register: {
+            parameters: [{ function: { parameters: ["pointer"], result: "u8" }, persist: true }],
+            result: "bool",
+          },
+          open: { parameters: ["cstring", "void"], result: "i32", errors: { ok: 0, failure: -1 } },
+          close: { parameters: [] },
+        } as unknown as LibraryDefinition,
+        { threadSafety: "sometimes" } as unknown as LibraryOptions,
+      ),
+    FfiDefinitionError,
+    "Found 6 problem(s)",
+  );
+  assertEquals(error.problems.map((problem) => problem.path), [
+    "register.parameters[0].persist",
+    "register.result",
+    "open.parameters[1]",
+    "open.errors",
+    "close.result",
+    "options.threadSafety",
+  ]);
+  assertEquals(error.problems[1].message, 'Unknown type "bool", use "u8"');
+});
+
+Deno.test("valid definitions pass", () => {
+  validateDefinitions({
+    open: { parameters: ["cstring", "i32"], result: "i32", errors: { negative: "errno" } },
+    close: { parameters: ["i32"], result: "void", nonblocking: true },
+  }, { threadSafety: "serialized" });
+});
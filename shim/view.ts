@@ -0,0 +1,124 @@
+import type { CStringOptions } from "./cstring.ts";
+import { readCString } from "./cstring.ts";
+import { bindForeignFunction } from "./marshal.ts";
+import type { NativeBackend } from "./native.ts";
+import type { ForeignFunction, Lifetime } from "./pointer.ts";
+import { createForeignPointer, ForeignPointer, unwrapForeignPointer } from "./pointer.ts";
+import type { FunctionDescription, NativeType } from "./types.ts";
+
+/**
+ * Equivalent to current `UnsafePointerView`, read-only access to foreign data,
+ * with the proposal's optional `getForeignPointer` and `getForeignFunction`
+ * additions for following pointers stored inside foreign structs.
+ *
+ * A view lives as long as the pointer it was created from: once that is
+ * revoked, every read throws an `FfiUseAfterFreeError`.
+ */
+export class ForeignPointerView {
+  #backend: NativeBackend;
+  #address: bigint;
+  #lifetime: Lifetime;
+
+  constructor(pointer: ForeignPointer) {
+    const raw = unwrapForeignPointer(pointer);
+    this.#backend = raw.backend;
+    this.#address = raw.address;
+    this.#lifetime = raw.lifetime;
+  }
+
+  /**
+   * The viewed address, if the memory behind it may still be accessed.
+   */
+  #live(): bigint {
+    this.#lifetime.assertLive();
+    return this.#address;
+  }
+
+  #read(offset: number, type: NativeType): number | bigint {
+    return this.#backend.read(this.#live(), offset, type);
+  }
+
+  getUint8(offset = 0): number {
+    return this.#read(offset, "u8") as number;
+  }
+
+  getInt8(offset = 0): number {
+    return this.#read(offset, "i8") as number;
+  }
+
+  getUint16(offset = 0): number {
+    return this.#read(offset, "u16") as number;
+  }
+
+  getInt16(offset = 0): number {
+    return this.#read(offset, "i16") as number;
+  }
+
+  getUint32(offset = 0): number {
+    return this.#read(offset, "u32") as number;
+  }
+
+  getInt32(offset = 0): number {
+    return this.#read(offset, "i32") as number;
+  }
+
+  getBigUint64(offset = 0): bigint {
+    return this.#read(offset, "u64") as bigint;
+  }
+
+  getBigInt64(offset = 0): bigint {
+    return this.#read(offset, "i64") as bigint;
+  }
+
+  getFloat32(offset = 0): number {
+    return this.#read(offset, "f32") as number;
+  }
+
+  getFloat64(offset = 0): number {
+    return this.#read(offset, "f64") as number;
+  }
+
+  /**
+   * Reads a NUL-terminated string. With a `maxLength`, no memory past that
+   * many code units is read even if there is no terminator.
+   */
+  getCString(offset = 0, options: CStringOptions = {}): string {
+    return readCString(this.#backend, this.#live(), offset, options);
+  }
+
+  getArrayBuffer(byteLength: number, offset = 0): ArrayBuffer {
+    return this.#backend.getArrayBuffer(this.#live(), byteLength, offset);
+  }
+
+  copyInto(destination: ArrayBufferView, offset = 0): void {
+    this.#backend.copyInto(this.#live(), destination, offset);
+  }
+
+  /**
+   * Data-access wise equivalent to `getBigUint64`, but returns the value as a
+   * `ForeignPointer`, or `null` for a null pointer. The pointer is derived
+   * from this view's: it is revoked along with it.
+   */
+  getForeignPointer(offset = 0): ForeignPointer | null {
+    return createForeignPointer(
+      this.#backend,
+      this.#read(offset, "pointer") as bigint,
+      this.#lifetime,
+    );
+  }
+
+  /**
+   * Extracts a foreign function pointer from foreign data. The signature
+   * cannot be known from the pointer alone and must be given explicitly.
+   */
+  getForeignFunction<T extends FunctionDescription>(
+    definition: T,
+    offset = 0,
+  ): ForeignFunction<T> | null {
+    return bindForeignFunction(
+      this.#backend,
+      this.#read(offset, "pointer") as bigint,
+      definition,
+    );
+  }
+}
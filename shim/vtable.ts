@@ -0,0 +1,164 @@
+/**
+ * Vtables, ie. structs of function pointers as used by plugin-style C
+ * interfaces. Instead of one `getForeignFunction` per slot at hand-computed
+ * offsets, describe the slots once:
+ *
+ * ```ts
+ * // struct ops { int (*open)(const char *); ssize_t (*read)(int, void *, size_t); ... }
+ * const Ops = new VtableLayout({
+ *   open: { parameters: ["pointer"], result: "i32", required: true },
+ *   read: { parameters: ["i32", "pointer", "usize"], result: "isize", nonblocking: true },
+ *   close: { offset: 24, parameters: ["i32"], result: "void" },
+ * });
+ * const ops = Ops.bind(lib.symbols.get_ops()!);
+ * ops.open.call(path);
+ * await ops.read?.call(fd, buffer, 64n);
+ * ```
+ *
+ * The other way around, `Ops.build(lib, { open, read, close })` lays out
+ * `StoredCallback`s as a native vtable inside an `OwnedPointer`, to
+ * implement a C interface in JS.
+ */
+
+import { libraryBackend } from "./library.ts";
+import type { ForeignLibrary } from "./library.ts";
+import { lowerArgument, matchesSignature } from "./marshal.ts";
+import { OwnedPointer } from "./owned_pointer.ts";
+import type { ForeignFunction, ForeignPointer } from "./pointer.ts";
+import type { StoredCallback } from "./stored_callback.ts";
+import type { FunctionDescription, LibraryDefinition } from "./types.ts";
+import { validateVtable } from "./validate.ts";
+import { ForeignPointerView } from "./view.ts";
+
+/**
+ * A function pointer slot of a vtable.
+ */
+export interface VtableEntry extends FunctionDescription {
+  /**
+   * Byte offset of the slot. Defaults to the slot after the previous
+   * entry's, or 0 for the first entry.
+   */
+  offset?: number;
+  /**
+   * Binding throws if the slot is null. Defaults to false, in which case
+   * null slots bind as `null`.
+   */
+  required?: boolean;
+}
+
+export interface VtableEntries {
+  [name: string]: VtableEntry;
+}
+
+/**
+ * A vtable bound from foreign memory. Entries call like the symbols they
+ * are described as, nonblocking ones included.
+ */
+export type ForeignVtable<E extends VtableEntries> = {
+  readonly [K in keyof E]: E[K] extends { required: true } ? ForeignFunction<E[K]>
+    : ForeignFunction<E[K]> | null;
+};
+
+/**
+ * Callbacks to lay out as a native vtable, `null` for empty slots.
+ */
+export type VtableCallbacks<E extends VtableEntries> = {
+  [K in keyof E]: StoredCallback<Pick<E[K], "parameters" | "result">> | null;
+};
+
+interface Slot {
+  name: string;
+  entry: VtableEntry;
+  offset: number;
+}
+
+/**
+ * Describes a vtable's slots: their names, offsets and signatures.
+ */
+export class VtableLayout<const E extends VtableEntries = VtableEntries> {
+  readonly entries: Readonly<E>;
+  /**
+   * Size of the vtable in bytes, up to and including its last slot.
+   */
+  readonly size: number;
+  #slots: Slot[] = [];
+
+  constructor(entries: E) {
+    validateVtable(entries);
+    let next = 0;
+    for (const [name, entry] of Object.entries(entries)) {
+      const offset = entry.offset ?? next;
+      this.#slots.push({ name, entry, offset });
+      next = offset + 8;
+    }
+    this.entries = Object.freeze({ ...entries });
+    this.size = Math.max(0, ...this.#slots.map((slot) => slot.offset + 8));
+  }
+
+  /**
+   * Byte offset of a slot from the start of the vtable.
+   */
+  offsetOf(name: keyof E & string): number {
+    const slot = this.#slots.find((slot) => slot.name === name);
+    if (!slot) {
+      throw new TypeError(`Unknown vtable entry "${name}"`);
+    }
+    return slot.offset;
+  }
+
+  /**
+   * Binds every slot of the vtable `pointer` points to as a
+   * `ForeignFunction`. Slots are read once, when binding: later changes to
+   * the vtable are not picked up.
+   */
+  bind(pointer: ForeignPointer): ForeignVtable<E> {
+    const view = new ForeignPointerView(pointer);
+    const vtable: Record<string, ForeignFunction | null> = {};
+    for (const { name, entry, offset } of this.#slots) {
+      const fn = view.getForeignFunction(entry, offset);
+      if (!fn && entry.required) {
+        throw new TypeError(`Required vtable entry "${name}" is null`);
+      }
+      vtable[name] = fn;
+    }
+    return Object.freeze(vtable) as ForeignVtable<E>;
+  }
+
+  /**
+   * Lays out stored callbacks as a native vtable for `library`, in a new
+   * `OwnedPointer` of `size` bytes. A larger size leaves room for fields
+   * after the slots. Native code may keep calling the callbacks for as long
+   * as it holds on to the vtable: keep the `OwnedPointer` alive and do not
+   * delete the callbacks until then. Each callback must have the parameters
+   * and result of its slot.
+   */
+  build(
+    library: ForeignLibrary<LibraryDefinition>,
+    callbacks: VtableCallbacks<E>,
+    size = this.size,
+  ): OwnedPointer {
+    if (size < this.size) {
+      throw new RangeError(`Vtable needs at least ${this.size} bytes`);
+    }
+    const backend = libraryBackend(library);
+    const pointer = new OwnedPointer(size);
+    const data = pointer.getDataView();
+    for (const { name, entry, offset } of this.#slots) {
+      const callback = (callbacks as Record<string, StoredCallback | null | undefined>)[name];
+      if (callback === undefined) {
+        throw new TypeError(`Missing vtable entry "${name}", pass null for an empty slot`);
+      }
+      if (callback === null && entry.required) {
+        throw new TypeError(`Required vtable entry "${name}" cannot be null`);
+      }
+      if (callback !== null && !matchesSignature(entry, callback)) {
+        throw new TypeError(
+          `StoredCallback for vtable entry "${name}" does not have its parameters and result`,
+        );
+      }
+      const address = lowerArgument(backend, { function: entry }, callback, false, []);
+      data.setBigUint64(offset, address as bigint, true);
+    }
+    return pointer;
+  }
+}
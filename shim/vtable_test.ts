@@ -0,0 +1,42 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert@1";
+import { mockDlopen } from "./mock.ts";
+import { StoredCallback, VtableLayout } from "./mod.ts";
+
+const Ops = new VtableLayout({
+  open: { parameters: ["pointer"], result: "i32", required: true },
+  close: { offset: 16, parameters: ["i32"], result: "void" },
+});
+
+function opsLibrary() {
+  return mockDlopen({ noop: { parameters: [], result: "void" } }, { noop() {} });
+}
+
+Deno.test("built vtables hold the callbacks at their slots", () => {
+  const lib = opsLibrary();
+  const closed: number[] = [];
+  using open = new StoredCallback({ parameters: ["pointer"], result: "i32" }, () => 3);
+  using close = new StoredCallback(
+    { parameters: ["i32"], result: "void", threadSafe: true },
+    (fd) => {
+      closed.push(fd);
+    },
+  );
+  const data = Ops.build(lib, { open, close }).getDataView();
+  assertEquals(data.byteLength, 24);
+  assertEquals(data.getBigUint64(8, true), 0n);
+  lib.heap.call(data.getBigUint64(Ops.offsetOf("close"), true), 4);
+  assertEquals(closed, [4]);
+  assertEquals(lib.heap.call(data.getBigUint64(Ops.offsetOf("open"), true), 0n), 3);
+});
+
+Deno.test("vtable slots only take callbacks with their parameters and result", () => {
+  const lib = opsLibrary();
+  using open = new StoredCallback({ parameters: ["pointer"], result: "i32" }, () => 3);
+  using close = new StoredCallback({ parameters: ["u32"], result: "void" }, () => {});
+  assertThrows(
+    // @ts-expect-error: close takes an i32.
+    () => Ops.build(lib, { open, close }),
+    TypeError,
+    'vtable entry "close" does not have its parameters and result',
+  );
+});
@@ -0,0 +1,199 @@
+import { denoBackend } from "./deno_backend.ts";
+import { closeDispatcherBuffer, createDispatcherBuffer } from "./dispatcher.ts";
+import { surfaceCallbackError } from "./marshal.ts";
+import type { NativeBackend } from "./native.ts";
+import type { PoolWorkerInit, PoolWorkerMessage } from "./pool_worker.ts";
+import type { CallbackFunction } from "./signatures.ts";
+import { setNativeFactory, StoredCallback } from "./stored_callback.ts";
+import { isStructType } from "./struct.ts";
+import type { StoredFunctionDescription } from "./types.ts";
+
+export interface WorkerPoolOptions {
+  /**
+   * Number of workers serving calls. Defaults to the number of logical
+   * CPUs, or 4 where that is not known.
+   */
+  poolSize?: number;
+  /**
+   * Shared state, passed to the module's `setup` export in every worker.
+   */
+  shared?: SharedArrayBuffer;
+  /**
+   * Number of calls that can be queued at once, a power of two. Defaults
+   * to 64.
+   */
+  capacity?: number;
+  /**
+   * Backend of the libraries the callback will be passed to. Defaults to
+   * the Deno backend, which cannot pool callbacks.
+   */
+  backend?: NativeBackend;
+}
+
+/**
+ * A thread-safe `StoredCallback` served by a pool of Web Workers instead of
+ * the main isolate, so that native threads calling it are served in
+ * parallel rather than one by one on the event loop. This is the
+ * `register_parallel_callback` of `thread-safe-callbacks/multi-threaded-js.ts`.
+ *
+ * Workers cannot see the main thread's variables, so the callback cannot be
+ * a closure. Its body comes from a module instead, whose default export is
+ * the callback. An optional `setup(shared, workerIndex)` export is called
+ * once per worker before it serves calls, with the pool's `shared` buffer:
+ *
+ * ```ts
+ * // hash.ts
+ * let counters: Int32Array;
+ * export function setup(shared: SharedArrayBuffer) {
+ *   counters = new Int32Array(shared);
+ * }
+ * export default function (value: number) {
+ *   return Atomics.add(counters, 0, value);
+ * }
+ *
+ * // main.ts
+ * const callback = new WorkerPoolCallback(
+ *   { parameters: ["u32"], result: "u32", threadSafe: true },
+ *   new URL("./hash.ts", import.meta.url),
+ *   { shared: new SharedArrayBuffer(4), poolSize: 8 },
+ * );
+ * await callback.ready;
+ * ```
+ *
+ * Struct parameters and results are not supported. Neither is the Deno
+ * backend, as `Deno.UnsafeCallback` always calls into the isolate that
+ * created it: constructing the callback without a `backend` that
+ * `poolsCallbacks` throws a `TypeError`. The mock backend is supported, and
+ * the workers read pointer arguments through a heap of their own, where
+ * they fault as unmapped.
+ *
+ * If a worker fails, eg. with an uncaught error, the whole pool stops:
+ * `ready` rejects if it has not resolved yet, the workers are terminated
+ * and native threads waiting on a call fail with an `FfiDeadlockError`.
+ */
+export class WorkerPoolCallback<
+  const Fn extends StoredFunctionDescription = StoredFunctionDescription,
+> extends StoredCallback<Fn> {
+  /**
+   * Resolves once every worker has loaded the module. Rejects if a worker
+   * fails to start. Calls made before the workers are ready are queued.
+   */
+  readonly ready: Promise<void>;
+  #ring: SharedArrayBuffer;
+  #workers: Worker[] = [];
+
+  constructor(description: Fn, module: URL | string, options: WorkerPoolOptions = {}) {
+    const backend = options.backend ?? denoBackend;
+    if (!backend.poolsCallbacks) {
+      throw new TypeError(
+        `Worker pool callbacks are not supported by the ${backend.kind} backend`,
+      );
+    }
+    if (!description.threadSafe) {
+      throw new TypeError("Worker pool callbacks must be thread-safe");
+    }
+    if ([...description.parameters, description.result].some(isStructType)) {
+      throw new TypeError("Worker pool callbacks do not support structs");
+    }
+    const poolSize = options.poolSize ?? globalThis.navigator?.hardwareConcurrency ?? 4;
+    if (!Number.isInteger(poolSize) || poolSize < 1) {
+      throw new RangeError("Pool size must be a positive integer");
+    }
+    super(
+      description,
+      ((): unknown => {
+        throw new Error("Worker pool callbacks are only called on their workers");
+      }) as CallbackFunction<Fn>,
+    );
+    const ring = createDispatcherBuffer(description, options.capacity);
+    this.#ring = ring;
+    setNativeFactory(this, (library) => {
+      if (library !== backend) {
+        throw new TypeError(
+          "Worker pool callbacks can only be passed to libraries of their own backend",
+        );
+      }
+      return backend.createPooledCallback(description, ring);
+    });
+
+    let failReady!: (error: unknown) => void;
+    const failed = new Promise<never>((_, reject) => failReady = reject);
+    let started = false;
+    let stopped = false;
+    // A failed worker may have been answering a call, which would then never
+    // be answered: stop the whole pool.
+    const fail = (error: unknown) => {
+      if (stopped) {
+        return;
+      }
+      stopped = true;
+      closeDispatcherBuffer(ring);
+      for (const worker of this.#workers.splice(0)) {
+        worker.terminate();
+      }
+      if (started) {
+        // Nobody awaits `ready` anymore, the error can only be surfaced.
+        surfaceCallbackError(error);
+      } else {
+        failReady(error);
+      }
+    };
+    const workersReady: Promise<void>[] = [];
+    for (let index = 0; index < poolSize; index++) {
+      const worker = new Worker(new URL("./pool_worker.ts", import.meta.url), {
+        type: "module",
+      });
+      this.#workers.push(worker);
+      workersReady.push(
+        new Promise((resolve) => {
+          let serving = false;
+          worker.onmessage = ({ data }: MessageEvent<PoolWorkerMessage>) => {
+            if (data.type === "ready") {
+              serving = true;
+              resolve();
+            } else if (serving) {
+              // Nobody awaits errors of calls, they can only be surfaced.
+              surfaceCallbackError(data.error);
+            } else {
+              fail(data.error);
+            }
+          };
+        }),
+      );
+      worker.onerror = (event) => {
+        event.preventDefault();
+        fail(event.error ?? new Error(event.message));
+      };
+      worker.onmessageerror = () => {
+        fail(new TypeError("Worker pool callback worker sent a message that cannot be read"));
+      };
+      const init: PoolWorkerInit = {
+        ring,
+        description,
+        module: String(module),
+        shared: options.shared,
+        index,
+        backend: backend.kind,
+      };
+      worker.postMessage(init);
+    }
+    this.ready = Promise.race([
+      Promise.all(workersReady).then(() => {
+        started = true;
+      }),
+      failed,
+    ]);
+  }
+
+  /**
+   * Deletes the callback and terminates its workers. Native threads still
+   * waiting on a call fail with an `FfiDeadlockError`.
+   */
+  override delete(): void {
+    super.delete();
+    closeDispatcherBuffer(this.#ring);
+    for (const worker of this.#workers.splice(0)) {
+      worker.terminate();
+    }
+  }
+}
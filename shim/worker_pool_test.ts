@@ -0,0 +1,156 @@
+import { assertEquals, assertRejects, assertStringIncludes, assertThrows } from "jsr:@std/assert@1";
+import { mockDlopen, MockHeap } from "./mock.ts";
+import { CallbackErrorEvent, FfiDeadlockError, WorkerPoolCallback } from "./mod.ts";
+
+const Hash = { parameters: ["u32"], result: "u32", threadSafe: true } as const;
+const Peek = { parameters: ["pointer"], result: "u32", threadSafe: true } as const;
+// Workers need `--allow-read` to load their entry point.
+const ignore = Deno.permissions.querySync({ name: "read" }).state !== "granted";
+
+/**
+ * A callback module, inlined so that the tests need no fixture files.
+ */
+function module(source: string) {
+  return `data:text/javascript,${encodeURIComponent(source)}`;
+}
+
+function poolLibrary() {
+  const heap = new MockHeap();
+  let callback = 0n;
+  const lib = mockDlopen({
+    register: {
+      parameters: [{ function: { parameters: ["u32"], result: "u32" } }],
+      result: "void",
+    },
+    registerPeek: {
+      parameters: [{ function: { parameters: ["pointer"], result: "u32" } }],
+      result: "void",
+    },
+  }, {
+    register(address: bigint) {
+      callback = address;
+    },
+    registerPeek(address: bigint) {
+      callback = address;
+    },
+  }, { heap });
+  return {
+    lib,
+    heap,
+    call: (...args: (number | bigint)[]) => heap.callFromForeignThread(callback, ...args),
+  };
+}
+
+Deno.test({
+  name: "worker pools answer calls from their workers",
+  ignore,
+  async fn() {
+    const { lib, heap, call } = poolLibrary();
+    const shared = new SharedArrayBuffer(4);
+    using callback = new WorkerPoolCallback(
+      Hash,
+      module(`
+      let calls;
+      export function setup(shared) { calls = new Int32Array(shared); }
+      export default (value) => { Atomics.add(calls, 0, 1); return value * 2; };
+    `),
+      { shared, poolSize: 2, backend: heap },
+    );
+    await callback.ready;
+    lib.symbols.register(callback);
+    const answers = await Promise.all(Array.from({ length: 8 }, (_, index) => call(index)));
+    assertEquals(answers, Array.from({ length: 8 }, (_, index) => index * 2));
+    assertEquals(new Int32Array(shared)[0], 8);
+  },
+});
+
+Deno.test({
+  name: "pointers passed to worker pools fault instead of being dereferenced",
+  ignore,
+  async fn() {
+    const { lib, heap, call } = poolLibrary();
+    using callback = new WorkerPoolCallback(
+      Peek,
+      module(`
+      import { ForeignPointerView } from ${JSON.stringify(import.meta.resolve("./mod.ts"))};
+      export default (pointer) => {
+        try {
+          return new ForeignPointerView(pointer).getUint32();
+        } catch (error) {
+          return error.name === "MockFault" ? 404 : 500;
+        }
+      };
+    `),
+      { poolSize: 1, backend: heap },
+    );
+    lib.symbols.registerPeek(callback);
+    assertEquals(await call(heap.alloc(4)), 404);
+  },
+});
+
+Deno.test("worker pools reject backends that cannot pool callbacks", () => {
+  assertThrows(
+    () => new WorkerPoolCallback(Hash, module("export default () => 0;")),
+    TypeError,
+    "not supported by the deno backend",
+  );
+});
+
+Deno.test({
+  name: "worker pools only serve libraries of their own backend",
+  ignore,
+  async fn() {
+    const { lib } = poolLibrary();
+    using callback = new WorkerPoolCallback(Hash, module("export default () => 0;"), {
+      poolSize: 1,
+      backend: new MockHeap(),
+    });
+    await callback.ready;
+    assertThrows(() => lib.symbols.register(callback), TypeError, "their own backend");
+  },
+});
+
+Deno.test({
+  name: "worker pools whose module fails to load reject ready",
+  ignore,
+  async fn() {
+    const { heap } = poolLibrary();
+    using callback = new WorkerPoolCallback(
+      Hash,
+      module(`
+      export function setup() { throw new Error("no config"); }
+      export default () => 0;
+    `),
+      { poolSize: 2, backend: heap },
+    );
+    await assertRejects(() => callback.ready, Error, "no config");
+  },
+});
+
+Deno.test({
+  name: "failing workers stop the pool and fail pending calls",
+  ignore,
+  async fn() {
+    const { lib, heap, call } = poolLibrary();
+    using callback = new WorkerPoolCallback(
+      Hash,
+      module(`
+      export default () => {
+        setTimeout(() => { throw new Error("crashed"); });
+        return new Promise(() => {});
+      };
+    `),
+      { poolSize: 1, backend: heap },
+    );
+    await callback.ready;
+    lib.symbols.register(callback);
+    const caught = new Promise<unknown>((resolve) =>
+      addEventListener("callbackerror", (event) => {
+        event.preventDefault();
+        resolve((event as CallbackErrorEvent).error);
+      }, { once: true })
+    );
+    await assertRejects(() => call(1), FfiDeadlockError);
+    assertStringIncludes((await caught as Error).message, "crashed");
+  },
+});